@@ -2,7 +2,7 @@
 
 import type React from "react"
 
-import { useState, useRef, useCallback, useEffect } from "react"
+import { useState, useRef, useCallback, useEffect, useMemo } from "react"
 import {
   Upload,
   ZoomIn,
@@ -16,8 +16,15 @@ import {
   FolderOpen,
   X,
   RotateCcw,
+  RotateCw,
   Maximize,
+  Search,
+  FileDown,
+  Info,
+  WrapText,
+  AlertTriangle,
 } from "lucide-react"
+import type { PDFDocumentProxy } from "pdfjs-dist"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
 import { Slider } from "@/components/ui/slider"
@@ -25,6 +32,13 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Switch } from "@/components/ui/switch"
 import { Label } from "@/components/ui/label"
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
 import {
   AlertDialog,
   AlertDialogAction,
@@ -36,24 +50,87 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog"
-import PDFViewer from "@/components/pdf-viewer-alternative"
+import PDFViewer from "@/components/pdf-viewer"
 import WordViewer from "@/components/word-viewer"
 import TextViewer from "@/components/text-viewer"
+import PDFSidebar from "@/components/pdf-sidebar"
+import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar"
+import PDFSearchBar from "@/components/pdf-search-bar"
+import PDFPropertiesDialog from "@/components/pdf-properties-dialog"
+import PageNumberInput from "@/components/page-number-input"
+import WordDiagnosticsDialog from "@/components/word-diagnostics-dialog"
+import WordStyleMapEditor from "@/components/word-style-map-editor"
+import { downloadFilledPdf, hasFormFields } from "@/lib/pdf-forms"
+import {
+  downloadRotatedPdf,
+  loadSavedRotations,
+  rotatePages,
+  saveRotations,
+  type PageRotations,
+} from "@/lib/pdf-rotation"
+import type { PageRegion } from "@/lib/pdf-images"
+import { getDocumentProperties } from "@/lib/pdf-properties"
+import { getPageLabels } from "@/lib/pdf-page-labels"
+import { countConversionMessages, type ConversionMessage } from "@/lib/word-diagnostics"
+import {
+  DEFAULT_STYLE_MAP_SETTINGS,
+  getStyleMapRules,
+  loadStyleMapSettings,
+  saveStyleMapSettings,
+  type WordStyleMapSettings,
+} from "@/lib/word-style-map"
+import { DEFAULT_IMAGE_TREATMENTS, IMAGE_TREATMENT_LABELS, type ImageTreatment } from "@/lib/word-images"
+import { getNextSpreadPage, getPreviousSpreadPage, getSpreadRange, type PageLayout } from "@/lib/pdf-spreads"
+import { clampZoom, ZOOM_STEP, type ZoomMode } from "@/lib/pdf-zoom"
+import type { TextHighlight } from "@/lib/pdf-search"
 
 type DocumentFile = File
 type FileType = "pdf" | "word" | "text" | null
 
+// The contents sidebar, and its Ctrl/Cmd+B shortcut, only exist while a PDF is open
+function PDFSidebarScope({ enabled, children }: { enabled: boolean; children: React.ReactNode }) {
+  if (!enabled) return children
+  return (
+    <SidebarProvider defaultOpen={false} className="block min-h-0">
+      {children}
+    </SidebarProvider>
+  )
+}
+
 export default function DocumentReader() {
   const [documentFile, setDocumentFile] = useState<DocumentFile | null>(null)
   const [fileType, setFileType] = useState<FileType>(null)
   const [currentPage, setCurrentPage] = useState(1)
   const [totalPages, setTotalPages] = useState(0)
+  const [pdfDocument, setPdfDocument] = useState<PDFDocumentProxy | null>(null)
+  const [hasForm, setHasForm] = useState(false)
+  const [pdfTitle, setPdfTitle] = useState<string | null>(null)
+  const [pageLabels, setPageLabels] = useState<string[] | null>(null)
+  const [conversionMessages, setConversionMessages] = useState<ConversionMessage[]>([])
+  const [diagnosticsOpen, setDiagnosticsOpen] = useState(false)
+  const [styleMapSettings, setStyleMapSettings] = useState<WordStyleMapSettings>(DEFAULT_STYLE_MAP_SETTINGS)
+  const [imageTreatments, setImageTreatments] = useState(DEFAULT_IMAGE_TREATMENTS)
+  const [propertiesOpen, setPropertiesOpen] = useState(false)
+  const [downloadError, setDownloadError] = useState<string | null>(null)
+  const [searchOpen, setSearchOpen] = useState(false)
+  const [searchHighlights, setSearchHighlights] = useState<Record<number, TextHighlight[]>>({})
   const [zoom, setZoom] = useState(1.0)
-  const [rotation, setRotation] = useState(0)
+  const [pdfZoomMode, setPdfZoomMode] = useState<ZoomMode>("fit-width")
+  const [pdfZoom, setPdfZoom] = useState(1.0)
+  const [effectivePdfZoom, setEffectivePdfZoom] = useState(1.0)
+  const [pdfAreaSize, setPdfAreaSize] = useState<{ width: number; height: number } | null>(null)
+  const [rotations, setRotations] = useState<PageRotations>({})
   const [isFullscreen, setIsFullscreen] = useState(false)
   const [theme, setTheme] = useState<"dark" | "sepia" | "high-contrast">("dark")
   const [autoScroll, setAutoScroll] = useState(false)
   const [scrollSpeed, setScrollSpeed] = useState(1)
+  const [continuousScroll, setContinuousScroll] = useState(false)
+  const [pageLayout, setPageLayout] = useState<PageLayout>("single")
+  const [coverPage, setCoverPage] = useState(true)
+  const [reflow, setReflow] = useState(false)
+  const [smartDarkMode, setSmartDarkMode] = useState(false)
+  const [markingImageRegions, setMarkingImageRegions] = useState(false)
+  const [imageRegions, setImageRegions] = useState<Record<number, PageRegion[]>>({})
   const [contrast, setContrast] = useState(1.0)
   const [brightness, setBrightness] = useState(1.0)
 
@@ -61,6 +138,102 @@ export default function DocumentReader() {
   const containerRef = useRef<HTMLDivElement>(null)
   const contentRef = useRef<HTMLDivElement>(null)
   const mainRef = useRef<HTMLDivElement>(null)
+  const pdfScrollRef = useRef<HTMLDivElement>(null)
+  const pdfContentRef = useRef<HTMLDivElement>(null)
+  const effectivePdfZoomRef = useRef(1.0)
+  // Where a Ctrl+wheel zoom started, so the point under the cursor can be put back once pages resize
+  const zoomAnchorRef = useRef<{ x: number; y: number; scrollLeft: number; scrollTop: number; ratio: number } | null>(
+    null,
+  )
+
+  // PDFs re-render at the new scale; other documents zoom the whole layout
+  const zoomIn = useCallback(() => {
+    if (fileType === "pdf") {
+      setPdfZoomMode("custom")
+      setPdfZoom(clampZoom(effectivePdfZoomRef.current + ZOOM_STEP))
+    } else {
+      setZoom((prev) => Math.min(prev + 0.25, 3.0))
+    }
+  }, [fileType])
+
+  const zoomOut = useCallback(() => {
+    if (fileType === "pdf") {
+      setPdfZoomMode("custom")
+      setPdfZoom(clampZoom(effectivePdfZoomRef.current - ZOOM_STEP))
+    } else {
+      setZoom((prev) => Math.max(prev - 0.25, 0.5))
+    }
+  }, [fileType])
+
+  const resetZoom = useCallback(() => {
+    if (fileType === "pdf") setPdfZoomMode("actual")
+    else setZoom(1.0)
+  }, [fileType])
+
+  const handlePdfZoomChange = useCallback((value: number) => {
+    effectivePdfZoomRef.current = value
+    setEffectivePdfZoom(value)
+  }, [])
+
+  // The fit modes follow the size of the area the pages are shown in
+  useEffect(() => {
+    const container = pdfScrollRef.current
+    if (!container) return
+
+    const observer = new ResizeObserver(() =>
+      setPdfAreaSize({ width: container.clientWidth, height: container.clientHeight }),
+    )
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [fileType, documentFile])
+
+  // Ctrl/Cmd + wheel zooms around the cursor instead of the browser zooming the whole app
+  useEffect(() => {
+    const container = pdfScrollRef.current
+    const content = pdfContentRef.current
+    if (!container || !content) return
+
+    const handleWheel = (event: WheelEvent) => {
+      if (!event.ctrlKey && !event.metaKey) return
+      event.preventDefault()
+
+      const current = effectivePdfZoomRef.current
+      const next = clampZoom(current * Math.exp(-event.deltaY * 0.002))
+      if (next === current) return
+
+      const rect = container.getBoundingClientRect()
+      const anchor = zoomAnchorRef.current
+      // Wheel events can arrive faster than pages re-render, so keep the first anchor and compound the ratio
+      zoomAnchorRef.current = anchor
+        ? { ...anchor, ratio: anchor.ratio * (next / current) }
+        : {
+            x: event.clientX - rect.left,
+            y: event.clientY - rect.top,
+            scrollLeft: container.scrollLeft,
+            scrollTop: container.scrollTop,
+            ratio: next / current,
+          }
+
+      effectivePdfZoomRef.current = next
+      setPdfZoomMode("custom")
+      setPdfZoom(next)
+    }
+
+    const observer = new ResizeObserver(() => {
+      const anchor = zoomAnchorRef.current
+      if (!anchor) return
+      zoomAnchorRef.current = null
+      container.scrollLeft = (anchor.scrollLeft + anchor.x) * anchor.ratio - anchor.x
+      container.scrollTop = (anchor.scrollTop + anchor.y) * anchor.ratio - anchor.y
+    })
+
+    container.addEventListener("wheel", handleWheel, { passive: false })
+    observer.observe(content)
+    return () => {
+      container.removeEventListener("wheel", handleWheel)
+      observer.disconnect()
+    }
+  }, [fileType, documentFile])
 
   // Handle keyboard shortcuts for zoom
   useEffect(() => {
@@ -86,8 +259,100 @@ export default function DocumentReader() {
 
     window.addEventListener("keydown", handleKeyDown)
     return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [zoomIn, zoomOut, resetZoom])
+
+  // Only fillable PDFs get a download button for the filled-in copy
+  useEffect(() => {
+    setHasForm(false)
+    if (!pdfDocument) return
+    let cancelled = false
+
+    hasFormFields(pdfDocument)
+      .then((result) => !cancelled && setHasForm(result))
+      .catch((error) => console.error("Error reading PDF form fields:", error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [pdfDocument])
+
+  // The tab shows the PDF's own title when it has one, otherwise the file name
+  useEffect(() => {
+    setPdfTitle(null)
+    if (!pdfDocument) return
+    let cancelled = false
+
+    getDocumentProperties(pdfDocument)
+      .then((properties) => !cancelled && setPdfTitle(properties.title))
+      .catch((error) => console.error("Error reading PDF title:", error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [pdfDocument])
+
+  // Printed page labels such as "xii" take over the counter when the PDF defines them
+  useEffect(() => {
+    setPageLabels(null)
+    if (!pdfDocument) return
+    let cancelled = false
+
+    getPageLabels(pdfDocument)
+      .then((labels) => !cancelled && setPageLabels(labels))
+      .catch((error) => console.error("Error reading PDF page labels:", error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [pdfDocument])
+
+  useEffect(() => {
+    const appTitle = "Dark Document Reader"
+    const documentTitle = pdfTitle ?? documentFile?.name
+    document.title = documentTitle ? `${documentTitle} - ${appTitle}` : appTitle
+  }, [pdfTitle, documentFile])
+
+  // The style map is a browser-wide preference, read once localStorage is available
+  useEffect(() => {
+    setStyleMapSettings(loadStyleMapSettings())
+  }, [])
+
+  const updateStyleMapSettings = useCallback((settings: WordStyleMapSettings) => {
+    setStyleMapSettings(settings)
+    saveStyleMapSettings(settings)
+  }, [])
+
+  const styleMap = useMemo(() => getStyleMapRules(styleMapSettings), [styleMapSettings])
+
+  // A paragraph's page link leaves reflow mode on the page it came from
+  const exitReflow = useCallback((pageNumber: number) => {
+    setReflow(false)
+    setCurrentPage(pageNumber)
   }, [])
 
+  const handleDownloadFilled = () => {
+    if (!pdfDocument || !documentFile) return
+    downloadFilledPdf(pdfDocument, documentFile.name).catch((error) => {
+      console.error("Error saving filled PDF:", error)
+      setDownloadError("The filled form could not be saved. The PDF may use form features the reader can't write.")
+    })
+  }
+
+  // Ctrl/Cmd + F opens our own find bar for PDFs, whose text the browser can't search
+  useEffect(() => {
+    if (fileType !== "pdf") return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key === "f") {
+        event.preventDefault()
+        setSearchOpen(true)
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [fileType])
+
   const getFileType = (file: File): FileType => {
     if (file.type === "application/pdf") return "pdf"
     if (
@@ -113,12 +378,22 @@ export default function DocumentReader() {
         setFileType(type)
         setCurrentPage(1)
         setTotalPages(0)
+        setImageRegions({})
       } else {
         alert("Please select a valid PDF, Word document, or text file")
       }
     }
   }, [])
 
+  // Attachments the reader understands replace the current document
+  const openAttachment = useCallback((file: File) => {
+    setDocumentFile(file)
+    setFileType(getFileType(file))
+    setCurrentPage(1)
+    setTotalPages(0)
+    setImageRegions({})
+  }, [])
+
   const handleDrop = useCallback((event: React.DragEvent) => {
     event.preventDefault()
     const file = event.dataTransfer.files[0]
@@ -129,6 +404,7 @@ export default function DocumentReader() {
         setFileType(type)
         setCurrentPage(1)
         setTotalPages(0)
+        setImageRegions({})
       } else {
         alert("Please select a valid PDF, Word document, or text file")
       }
@@ -144,6 +420,7 @@ export default function DocumentReader() {
     setFileType(null)
     setCurrentPage(1)
     setTotalPages(0)
+    setImageRegions({})
     // Reset file input
     if (fileInputRef.current) {
       fileInputRef.current.value = ""
@@ -156,6 +433,7 @@ export default function DocumentReader() {
     setFileType(null)
     setCurrentPage(1)
     setTotalPages(0)
+    setImageRegions({})
     setZoom(1.0) // Reset zoom when opening new file
 
     // Reset file input value to allow selecting the same file again
@@ -179,13 +457,48 @@ export default function DocumentReader() {
     }
   }, [])
 
-  const zoomIn = () => setZoom((prev) => Math.min(prev + 0.25, 3.0))
-  const zoomOut = () => setZoom((prev) => Math.max(prev - 0.25, 0.5))
-  const resetZoom = () => setZoom(1.0)
-  const rotate = () => setRotation((prev) => (prev + 90) % 360)
+  // Page rotations are kept per document, so a re-opened scan comes back the right way up
+  useEffect(() => {
+    setRotations(pdfDocument ? loadSavedRotations(pdfDocument) : {})
+  }, [pdfDocument])
 
-  const nextPage = () => setCurrentPage((prev) => Math.min(prev + 1, totalPages))
-  const prevPage = () => setCurrentPage((prev) => Math.max(prev - 1, 1))
+  const updateRotations = useCallback(
+    (update: (prev: PageRotations) => PageRotations) => {
+      setRotations((prev) => {
+        const next = update(prev)
+        if (pdfDocument) saveRotations(pdfDocument, next)
+        return next
+      })
+    },
+    [pdfDocument],
+  )
+
+  const rotatePage = useCallback(
+    (pageNumber: number) => updateRotations((prev) => rotatePages(prev, [pageNumber])),
+    [updateRotations],
+  )
+
+  const rotateAllPages = () => {
+    const pageNumbers = Array.from({ length: totalPages }, (_, index) => index + 1)
+    updateRotations((prev) => rotatePages(prev, pageNumbers))
+  }
+
+  const handleDownloadRotated = () => {
+    if (!pdfDocument || !documentFile) return
+    downloadRotatedPdf(pdfDocument, rotations, documentFile.name).catch((error) => {
+      console.error("Error saving rotated PDF:", error)
+      setDownloadError("The rotated PDF could not be saved. The file's structure may not support rewriting its pages.")
+    })
+  }
+
+  const addImageRegion = useCallback((pageNumber: number, region: PageRegion) => {
+    setImageRegions((prev) => ({ ...prev, [pageNumber]: [...(prev[pageNumber] ?? []), region] }))
+  }, [])
+
+  // In spread mode the chevrons move a whole spread at a time
+  const [firstVisiblePage, lastVisiblePage] = getSpreadRange(currentPage, totalPages, pageLayout, coverPage)
+  const nextPage = () => setCurrentPage((prev) => getNextSpreadPage(prev, totalPages, pageLayout, coverPage))
+  const prevPage = () => setCurrentPage((prev) => getPreviousSpreadPage(prev, totalPages, pageLayout, coverPage))
 
   const resetVisualSettings = () => {
     setContrast(1.0)
@@ -226,395 +539,691 @@ export default function DocumentReader() {
 
   return (
     <div ref={containerRef} className={`min-h-screen transition-colors duration-300 ${getThemeClasses()}`}>
-      {/* Header - Fixed and not affected by zoom */}
-      <header className="border-b border-gray-600 bg-gray-800 backdrop-blur-sm p-4 relative z-10">
-        <div className="flex items-center justify-between">
-          <div className="flex items-center gap-4">
-            <div className="flex items-center gap-2">
-              <Moon className="w-5 h-5 text-blue-400" />
-              <h1 className="text-xl font-semibold">Dark Document Reader</h1>
-            </div>
-
-            {documentFile && (
-              <div className="flex items-center gap-2 text-sm bg-gray-700 px-3 py-1 rounded-full border border-gray-600">
-                {getFileIcon()}
-                <span className="max-w-[200px] truncate">{documentFile.name}</span>
-                <span className="text-xs bg-gray-600 px-2 py-0.5 rounded text-gray-300">{getFileTypeLabel()}</span>
-                {fileType === "pdf" && totalPages > 0 && (
-                  <span className="opacity-70 ml-2">
-                    Page {currentPage} of {totalPages}
-                  </span>
-                )}
+      <PDFSidebarScope enabled={fileType === "pdf"}>
+        {/* Header - Fixed and not affected by zoom */}
+        <header className="border-b border-gray-600 bg-gray-800 backdrop-blur-sm p-4 relative z-10">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <div className="flex items-center gap-2">
+                <Moon className="w-5 h-5 text-blue-400" />
+                <h1 className="text-xl font-semibold">Dark Document Reader</h1>
               </div>
-            )}
-          </div>
 
-          <div className="flex items-center gap-2">
-            {documentFile && (
-              <>
-                {/* Navigation Controls */}
-                <div className="flex items-center gap-1 mr-2">
-                  <Button variant="ghost" size="sm" onClick={handleNewFile} title="Open New File (Ctrl+O)">
-                    <FolderOpen className="w-4 h-4" />
-                  </Button>
-
-                  <AlertDialog>
-                    <AlertDialogTrigger asChild>
-                      <Button variant="ghost" size="sm" title="Close Document (Ctrl+W)">
-                        <X className="w-4 h-4" />
-                      </Button>
-                    </AlertDialogTrigger>
-                    <AlertDialogContent className="bg-gray-800 border-gray-700">
-                      <AlertDialogHeader>
-                        <AlertDialogTitle className="text-gray-100">Close Document?</AlertDialogTitle>
-                        <AlertDialogDescription className="text-gray-300">
-                          Are you sure you want to close this document? You'll return to the home page to select a new
-                          file.
-                        </AlertDialogDescription>
-                      </AlertDialogHeader>
-                      <AlertDialogFooter>
-                        <AlertDialogCancel className="bg-gray-700 border-gray-600 text-gray-200 hover:bg-gray-600">
-                          Cancel
-                        </AlertDialogCancel>
-                        <AlertDialogAction onClick={handleGoHome} className="bg-blue-600 hover:bg-blue-700 text-white">
-                          Close Document
-                        </AlertDialogAction>
-                      </AlertDialogFooter>
-                    </AlertDialogContent>
-                  </AlertDialog>
-
-                  <div className="w-px h-6 bg-gray-600 mx-2" />
+              {documentFile && (
+                <div className="flex items-center gap-2 text-sm bg-gray-700 px-3 py-1 rounded-full border border-gray-600">
+                  {getFileIcon()}
+                  <span className="max-w-[200px] truncate">{documentFile.name}</span>
+                  <span className="text-xs bg-gray-600 px-2 py-0.5 rounded text-gray-300">{getFileTypeLabel()}</span>
+                  {fileType === "pdf" && pdfDocument && (
+                    <button
+                      type="button"
+                      onClick={() => setPropertiesOpen(true)}
+                      className="text-gray-400 hover:text-gray-100 transition-colors"
+                      title="Document Properties"
+                      aria-label="Document Properties"
+                    >
+                      <Info className="w-4 h-4" />
+                    </button>
+                  )}
+                  {fileType === "word" && conversionMessages.length > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => setDiagnosticsOpen(true)}
+                      className="flex items-center gap-1 rounded bg-amber-900/60 px-1.5 py-0.5 text-xs text-amber-200 hover:bg-amber-800/70 transition-colors"
+                      title="Conversion Diagnostics"
+                      aria-label={`${countConversionMessages(conversionMessages)} conversion warnings`}
+                    >
+                      <AlertTriangle className="w-3 h-3" />
+                      {countConversionMessages(conversionMessages)}
+                    </button>
+                  )}
+                  {fileType === "pdf" && totalPages > 0 && (
+                    <PageNumberInput
+                      firstVisiblePage={firstVisiblePage}
+                      lastVisiblePage={lastVisiblePage}
+                      totalPages={totalPages}
+                      pageLabels={pageLabels}
+                      onPageChange={setCurrentPage}
+                    />
+                  )}
                 </div>
+              )}
+            </div>
 
-                {/* Document Controls */}
-                {fileType === "pdf" && (
-                  <>
-                    <Button variant="ghost" size="sm" onClick={prevPage} disabled={currentPage <= 1}>
-                      <ChevronLeft className="w-4 h-4" />
+            <div className="flex items-center gap-2">
+              {documentFile && (
+                <>
+                  {/* Navigation Controls */}
+                  <div className="flex items-center gap-1 mr-2">
+                    <Button variant="ghost" size="sm" onClick={handleNewFile} title="Open New File (Ctrl+O)">
+                      <FolderOpen className="w-4 h-4" />
                     </Button>
 
-                    <Button variant="ghost" size="sm" onClick={nextPage} disabled={currentPage >= totalPages}>
-                      <ChevronRight className="w-4 h-4" />
-                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="sm" title="Close Document (Ctrl+W)">
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent className="bg-gray-800 border-gray-700">
+                        <AlertDialogHeader>
+                          <AlertDialogTitle className="text-gray-100">Close Document?</AlertDialogTitle>
+                          <AlertDialogDescription className="text-gray-300">
+                            Are you sure you want to close this document? You'll return to the home page to select a new
+                            file.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel className="bg-gray-700 border-gray-600 text-gray-200 hover:bg-gray-600">
+                            Cancel
+                          </AlertDialogCancel>
+                          <AlertDialogAction onClick={handleGoHome} className="bg-blue-600 hover:bg-blue-700 text-white">
+                            Close Document
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
 
                     <div className="w-px h-6 bg-gray-600 mx-2" />
-                  </>
-                )}
+                  </div>
 
-                <Button variant="ghost" size="sm" onClick={zoomOut} title="Zoom Out (Ctrl+-)">
-                  <ZoomOut className="w-4 h-4" />
-                </Button>
+                  {/* Document Controls */}
+                  {fileType === "pdf" && (
+                    <>
+                      <SidebarTrigger className="h-9 w-9" title="Toggle Contents (Ctrl+B)" />
 
-                <span className="text-sm min-w-[4rem] text-center bg-gray-700 px-2 py-1 rounded border border-gray-600 text-gray-100">
-                  {Math.round(zoom * 100)}%
-                </span>
+                      <Button variant="ghost" size="sm" onClick={prevPage} disabled={firstVisiblePage <= 1}>
+                        <ChevronLeft className="w-4 h-4" />
+                      </Button>
 
-                <Button variant="ghost" size="sm" onClick={zoomIn} title="Zoom In (Ctrl++)">
-                  <ZoomIn className="w-4 h-4" />
-                </Button>
+                      <Button variant="ghost" size="sm" onClick={nextPage} disabled={lastVisiblePage >= totalPages}>
+                        <ChevronRight className="w-4 h-4" />
+                      </Button>
 
-                <Button variant="ghost" size="sm" onClick={resetZoom} title="Reset Zoom (Ctrl+0)">
-                  <RotateCcw className="w-4 h-4" />
-                </Button>
+                      <div className="w-px h-6 bg-gray-600 mx-2" />
+                    </>
+                  )}
 
-                {fileType === "pdf" && (
-                  <Button variant="ghost" size="sm" onClick={rotate} title="Rotate">
-                    <RotateCcw className="w-4 h-4 rotate-90" />
-                  </Button>
-                )}
+                  {fileType === "pdf" && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setSearchOpen((prev) => !prev)}
+                      title="Find in Document (Ctrl+F)"
+                    >
+                      <Search className="w-4 h-4" />
+                    </Button>
+                  )}
 
-                <Button variant="ghost" size="sm" onClick={toggleFullscreen} title="Fullscreen (F11)">
-                  <Maximize className="w-4 h-4" />
-                </Button>
-              </>
-            )}
+                  {fileType === "pdf" && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setReflow((prev) => !prev)}
+                      className={reflow ? "bg-gray-700 text-blue-300" : undefined}
+                      title={reflow ? "Show Pages" : "Reflow Text"}
+                      aria-pressed={reflow}
+                    >
+                      <WrapText className="w-4 h-4" />
+                    </Button>
+                  )}
 
-            <Sheet>
-              <SheetTrigger asChild>
-                <Button variant="ghost" size="sm">
-                  <Settings className="w-4 h-4" />
-                </Button>
-              </SheetTrigger>
-              <SheetContent className="bg-gray-800 border-gray-700 w-80">
-                <SheetHeader>
-                  <SheetTitle className="text-gray-100 flex items-center gap-2">
-                    <Contrast className="w-5 h-5" />
-                    Reading Settings
-                  </SheetTitle>
-                </SheetHeader>
-
-                <div className="space-y-6 mt-6">
-                  {documentFile && (
-                    <div className="border-b border-gray-700 pb-4">
-                      <h3 className="text-sm font-medium text-gray-200 mb-3 flex items-center gap-2">
-                        <Moon className="w-4 h-4" />
-                        Navigation
-                      </h3>
-                      <div className="space-y-2">
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={handleNewFile}
-                          className="w-full bg-gray-700 border-gray-600 text-gray-200 hover:bg-gray-600 justify-start"
-                        >
-                          <FolderOpen className="w-4 h-4 mr-2" />
-                          Open New File
-                        </Button>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={handleGoHome}
-                          className="w-full bg-gray-700 border-gray-600 text-gray-200 hover:bg-gray-600 justify-start"
-                        >
-                          <X className="w-4 h-4 mr-2" />
-                          Back to Home
-                        </Button>
-                      </div>
-                    </div>
+                  {fileType === "pdf" && hasForm && (
+                    <Button variant="ghost" size="sm" onClick={handleDownloadFilled} title="Download Filled Form">
+                      <FileDown className="w-4 h-4" />
+                    </Button>
                   )}
 
-                  <div className="space-y-2">
-                    <Label className="text-gray-200">Theme</Label>
-                    <Select
-                      value={theme}
-                      onValueChange={(value: "dark" | "sepia" | "high-contrast") => setTheme(value)}
-                    >
-                      <SelectTrigger className="bg-gray-700 border-gray-600 text-gray-100">
-                        <SelectValue />
+                  <Button variant="ghost" size="sm" onClick={zoomOut} title="Zoom Out (Ctrl+-)">
+                    <ZoomOut className="w-4 h-4" />
+                  </Button>
+
+                  {fileType === "pdf" ? (
+                    <Select value={pdfZoomMode} onValueChange={(value) => setPdfZoomMode(value as ZoomMode)}>
+                      <SelectTrigger
+                        className="h-8 w-[7.5rem] bg-gray-700 border-gray-600 text-gray-100 text-sm"
+                        title="Zoom Mode"
+                      >
+                        <span>{Math.round(effectivePdfZoom * 100)}%</span>
                       </SelectTrigger>
                       <SelectContent className="bg-gray-700 border-gray-600">
-                        <SelectItem value="dark" className="text-gray-100 focus:bg-gray-600">
-                          Dark Mode
+                        <SelectItem value="fit-width" className="text-gray-100 focus:bg-gray-600">
+                          Fit Width
+                        </SelectItem>
+                        <SelectItem value="fit-page" className="text-gray-100 focus:bg-gray-600">
+                          Fit Page
                         </SelectItem>
-                        <SelectItem value="sepia" className="text-gray-100 focus:bg-gray-600">
-                          Sepia Mode
+                        <SelectItem value="actual" className="text-gray-100 focus:bg-gray-600">
+                          Actual Size
                         </SelectItem>
-                        <SelectItem value="high-contrast" className="text-gray-100 focus:bg-gray-600">
-                          High Contrast
+                        <SelectItem value="custom" className="text-gray-100 focus:bg-gray-600">
+                          Custom ({Math.round(pdfZoom * 100)}%)
                         </SelectItem>
                       </SelectContent>
                     </Select>
-                  </div>
+                  ) : (
+                    <span className="text-sm min-w-[4rem] text-center bg-gray-700 px-2 py-1 rounded border border-gray-600 text-gray-100">
+                      {Math.round(zoom * 100)}%
+                    </span>
+                  )}
 
-                  <div className="border-t border-gray-700 pt-4">
-                    <h3 className="text-sm font-medium text-gray-200 mb-4 flex items-center gap-2">
-                      <Contrast className="w-4 h-4" />
-                      Visual Adjustments
-                    </h3>
-
-                    <div className="space-y-4">
-                      <div className="space-y-2">
-                        <Label className="text-gray-200">Layout Zoom</Label>
-                        <Slider
-                          value={[zoom]}
-                          onValueChange={([value]) => setZoom(value)}
-                          min={0.5}
-                          max={2.0}
-                          step={0.25}
-                          className="w-full"
-                        />
-                        <div className="flex justify-between text-xs text-gray-400">
-                          <span>50%</span>
-                          <span>{Math.round(zoom * 100)}%</span>
-                          <span>200%</span>
-                        </div>
-                        <div className="text-xs text-gray-500">
-                          Zooms the entire document layout
-                          {zoom > 1 && (
-                            <span className="block text-yellow-400 mt-1">
-                              💡 Scroll horizontally to see full content
-                            </span>
-                          )}
-                        </div>
-                      </div>
+                  <Button variant="ghost" size="sm" onClick={zoomIn} title="Zoom In (Ctrl++)">
+                    <ZoomIn className="w-4 h-4" />
+                  </Button>
 
-                      <div className="space-y-2">
-                        <Label className="text-gray-200">Contrast</Label>
-                        <Slider
-                          value={[contrast]}
-                          onValueChange={([value]) => setContrast(value)}
-                          min={0.5}
-                          max={2.0}
-                          step={0.1}
-                          className="w-full"
-                        />
-                        <div className="flex justify-between text-xs text-gray-400">
-                          <span>Low</span>
-                          <span>{contrast.toFixed(1)}x</span>
-                          <span>High</span>
-                        </div>
-                      </div>
+                  <Button variant="ghost" size="sm" onClick={resetZoom} title="Reset Zoom (Ctrl+0)">
+                    <RotateCcw className="w-4 h-4" />
+                  </Button>
 
-                      <div className="space-y-2">
-                        <Label className="text-gray-200">Brightness</Label>
-                        <Slider
-                          value={[brightness]}
-                          onValueChange={([value]) => setBrightness(value)}
-                          min={0.5}
-                          max={1.5}
-                          step={0.1}
-                          className="w-full"
-                        />
-                        <div className="flex justify-between text-xs text-gray-400">
-                          <span>Dim</span>
-                          <span>{brightness.toFixed(1)}x</span>
-                          <span>Bright</span>
+                  {fileType === "pdf" && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="sm" title="Rotate">
+                          <RotateCw className="w-4 h-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end" className="bg-gray-700 border-gray-600 text-gray-100">
+                        <DropdownMenuItem onSelect={() => rotatePage(currentPage)} className="focus:bg-gray-600">
+                          Rotate Page {currentPage}
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onSelect={rotateAllPages} className="focus:bg-gray-600">
+                          Rotate All Pages
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onSelect={() => updateRotations(() => ({}))}
+                          disabled={Object.keys(rotations).length === 0}
+                          className="focus:bg-gray-600"
+                        >
+                          Reset Rotation
+                        </DropdownMenuItem>
+                        <DropdownMenuSeparator className="bg-gray-600" />
+                        <DropdownMenuItem
+                          onSelect={handleDownloadRotated}
+                          disabled={!pdfDocument || Object.keys(rotations).length === 0}
+                          className="focus:bg-gray-600"
+                        >
+                          Download Rotated PDF
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+
+                  <Button variant="ghost" size="sm" onClick={toggleFullscreen} title="Fullscreen (F11)">
+                    <Maximize className="w-4 h-4" />
+                  </Button>
+                </>
+              )}
+
+              <Sheet>
+                <SheetTrigger asChild>
+                  <Button variant="ghost" size="sm">
+                    <Settings className="w-4 h-4" />
+                  </Button>
+                </SheetTrigger>
+                <SheetContent className="bg-gray-800 border-gray-700 w-80 overflow-y-auto">
+                  <SheetHeader>
+                    <SheetTitle className="text-gray-100 flex items-center gap-2">
+                      <Contrast className="w-5 h-5" />
+                      Reading Settings
+                    </SheetTitle>
+                  </SheetHeader>
+
+                  <div className="space-y-6 mt-6">
+                    {documentFile && (
+                      <div className="border-b border-gray-700 pb-4">
+                        <h3 className="text-sm font-medium text-gray-200 mb-3 flex items-center gap-2">
+                          <Moon className="w-4 h-4" />
+                          Navigation
+                        </h3>
+                        <div className="space-y-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={handleNewFile}
+                            className="w-full bg-gray-700 border-gray-600 text-gray-200 hover:bg-gray-600 justify-start"
+                          >
+                            <FolderOpen className="w-4 h-4 mr-2" />
+                            Open New File
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={handleGoHome}
+                            className="w-full bg-gray-700 border-gray-600 text-gray-200 hover:bg-gray-600 justify-start"
+                          >
+                            <X className="w-4 h-4 mr-2" />
+                            Back to Home
+                          </Button>
                         </div>
                       </div>
+                    )}
 
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={resetVisualSettings}
-                        className="w-full bg-gray-700 border-gray-600 text-gray-200 hover:bg-gray-600"
+                    <div className="space-y-2">
+                      <Label className="text-gray-200">Theme</Label>
+                      <Select
+                        value={theme}
+                        onValueChange={(value: "dark" | "sepia" | "high-contrast") => setTheme(value)}
                       >
-                        Reset to Default
-                      </Button>
+                        <SelectTrigger className="bg-gray-700 border-gray-600 text-gray-100">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-gray-700 border-gray-600">
+                          <SelectItem value="dark" className="text-gray-100 focus:bg-gray-600">
+                            Dark Mode
+                          </SelectItem>
+                          <SelectItem value="sepia" className="text-gray-100 focus:bg-gray-600">
+                            Sepia Mode
+                          </SelectItem>
+                          <SelectItem value="high-contrast" className="text-gray-100 focus:bg-gray-600">
+                            High Contrast
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
                     </div>
-                  </div>
 
-                  {fileType === "pdf" && (
                     <div className="border-t border-gray-700 pt-4">
-                      <h3 className="text-sm font-medium text-gray-200 mb-4">PDF Options</h3>
+                      <h3 className="text-sm font-medium text-gray-200 mb-4 flex items-center gap-2">
+                        <Contrast className="w-4 h-4" />
+                        Visual Adjustments
+                      </h3>
 
-                      <div className="flex items-center justify-between">
-                        <Label htmlFor="auto-scroll" className="text-gray-200">
-                          Auto Scroll
-                        </Label>
-                        <Switch id="auto-scroll" checked={autoScroll} onCheckedChange={setAutoScroll} />
-                      </div>
+                      <div className="space-y-4">
+                        {fileType !== "pdf" && (
+                          <div className="space-y-2">
+                            <Label className="text-gray-200">Layout Zoom</Label>
+                            <Slider
+                              value={[zoom]}
+                              onValueChange={([value]) => setZoom(value)}
+                              min={0.5}
+                              max={2.0}
+                              step={0.25}
+                              className="w-full"
+                            />
+                            <div className="flex justify-between text-xs text-gray-400">
+                              <span>50%</span>
+                              <span>{Math.round(zoom * 100)}%</span>
+                              <span>200%</span>
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              Zooms the entire document layout
+                              {zoom > 1 && (
+                                <span className="block text-yellow-400 mt-1">
+                                  💡 Scroll horizontally to see full content
+                                </span>
+                              )}
+                            </div>
+                          </div>
+                        )}
 
-                      {autoScroll && (
-                        <div className="space-y-2 mt-4">
-                          <Label className="text-gray-200">Scroll Speed</Label>
+                        <div className="space-y-2">
+                          <Label className="text-gray-200">Contrast</Label>
                           <Slider
-                            value={[scrollSpeed]}
-                            onValueChange={([value]) => setScrollSpeed(value)}
+                            value={[contrast]}
+                            onValueChange={([value]) => setContrast(value)}
                             min={0.5}
-                            max={3.0}
-                            step={0.5}
+                            max={2.0}
+                            step={0.1}
                             className="w-full"
                           />
-                          <div className="text-sm text-gray-400">{scrollSpeed}x</div>
+                          <div className="flex justify-between text-xs text-gray-400">
+                            <span>Low</span>
+                            <span>{contrast.toFixed(1)}x</span>
+                            <span>High</span>
+                          </div>
                         </div>
-                      )}
+
+                        <div className="space-y-2">
+                          <Label className="text-gray-200">Brightness</Label>
+                          <Slider
+                            value={[brightness]}
+                            onValueChange={([value]) => setBrightness(value)}
+                            min={0.5}
+                            max={1.5}
+                            step={0.1}
+                            className="w-full"
+                          />
+                          <div className="flex justify-between text-xs text-gray-400">
+                            <span>Dim</span>
+                            <span>{brightness.toFixed(1)}x</span>
+                            <span>Bright</span>
+                          </div>
+                        </div>
+
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={resetVisualSettings}
+                          className="w-full bg-gray-700 border-gray-600 text-gray-200 hover:bg-gray-600"
+                        >
+                          Reset to Default
+                        </Button>
+                      </div>
                     </div>
-                  )}
 
-                  <div className="border-t border-gray-700 pt-4">
-                    <div className="text-xs text-gray-500 space-y-1">
-                      <p>⌨️ Keyboard shortcuts:</p>
-                      <p>Ctrl/Cmd + Plus: Zoom in</p>
-                      <p>Ctrl/Cmd + Minus: Zoom out</p>
-                      <p>Ctrl/Cmd + 0: Reset zoom</p>
-                      <p>💡 Layout zoom affects the entire document view</p>
+                    {fileType === "pdf" && (
+                      <div className="border-t border-gray-700 pt-4">
+                        <h3 className="text-sm font-medium text-gray-200 mb-4">PDF Options</h3>
+
+                        <div className="flex items-center justify-between mb-4">
+                          <Label htmlFor="continuous-scroll" className="text-gray-200">
+                            Continuous Scroll
+                          </Label>
+                          <Switch
+                            id="continuous-scroll"
+                            checked={continuousScroll}
+                            onCheckedChange={setContinuousScroll}
+                          />
+                        </div>
+
+                        <div className="flex items-center justify-between mb-2">
+                          <Label htmlFor="two-page-spread" className="text-gray-200">
+                            Two-Page Spread
+                          </Label>
+                          <Switch
+                            id="two-page-spread"
+                            checked={pageLayout === "spread"}
+                            onCheckedChange={(checked) => setPageLayout(checked ? "spread" : "single")}
+                          />
+                        </div>
+
+                        {pageLayout === "spread" && (
+                          <div className="space-y-2 mb-4">
+                            <div className="flex items-center justify-between">
+                              <Label htmlFor="cover-page" className="text-gray-200">
+                                Show Cover Separately
+                              </Label>
+                              <Switch id="cover-page" checked={coverPage} onCheckedChange={setCoverPage} />
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              Keeps page 1 on its own so facing pages line up like a printed book
+                            </div>
+                          </div>
+                        )}
+
+                        <div className="flex items-center justify-between mb-2 mt-4">
+                          <Label htmlFor="smart-dark-mode" className="text-gray-200">
+                            Keep Images in Colour
+                          </Label>
+                          <Switch id="smart-dark-mode" checked={smartDarkMode} onCheckedChange={setSmartDarkMode} />
+                        </div>
+
+                        {smartDarkMode && (
+                          <div className="space-y-2 mb-4">
+                            <div className="flex items-center justify-between">
+                              <Label htmlFor="mark-image-regions" className="text-gray-200">
+                                Mark Image Regions
+                              </Label>
+                              <Switch
+                                id="mark-image-regions"
+                                checked={markingImageRegions}
+                                onCheckedChange={setMarkingImageRegions}
+                              />
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              Drag over charts or figures the automatic detection missed to keep them in true colour
+                            </div>
+                            {Object.keys(imageRegions).length > 0 && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setImageRegions({})}
+                                className="w-full bg-gray-700 border-gray-600 text-gray-200 hover:bg-gray-600"
+                              >
+                                Clear Marked Regions
+                              </Button>
+                            )}
+                          </div>
+                        )}
+
+                        <div className="flex items-center justify-between">
+                          <Label htmlFor="auto-scroll" className="text-gray-200">
+                            Auto Scroll
+                          </Label>
+                          <Switch id="auto-scroll" checked={autoScroll} onCheckedChange={setAutoScroll} />
+                        </div>
+
+                        {autoScroll && (
+                          <div className="space-y-2 mt-4">
+                            <Label className="text-gray-200">Scroll Speed</Label>
+                            <Slider
+                              value={[scrollSpeed]}
+                              onValueChange={([value]) => setScrollSpeed(value)}
+                              min={0.5}
+                              max={3.0}
+                              step={0.5}
+                              className="w-full"
+                            />
+                            <div className="text-sm text-gray-400">{scrollSpeed}x</div>
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    {fileType === "word" && (
+                      <div className="border-t border-gray-700 pt-4">
+                        <h3 className="text-sm font-medium text-gray-200 mb-4">Word Options</h3>
+
+                        <div className="space-y-2 mb-6">
+                          <Label className="text-gray-200">Images</Label>
+                          <Select
+                            value={imageTreatments[theme]}
+                            onValueChange={(value: ImageTreatment) =>
+                              setImageTreatments((prev) => ({ ...prev, [theme]: value }))
+                            }
+                          >
+                            <SelectTrigger className="bg-gray-700 border-gray-600 text-gray-100">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent className="bg-gray-700 border-gray-600">
+                              {(Object.keys(IMAGE_TREATMENT_LABELS) as ImageTreatment[]).map((treatment) => (
+                                <SelectItem key={treatment} value={treatment} className="text-gray-100 focus:bg-gray-600">
+                                  {IMAGE_TREATMENT_LABELS[treatment]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <div className="text-xs text-gray-500">
+                            Applies to the current theme. Click an image to enlarge it.
+                          </div>
+                        </div>
+
+                        <h4 className="text-sm text-gray-300 mb-3">Style Map</h4>
+                        <WordStyleMapEditor settings={styleMapSettings} onChange={updateStyleMapSettings} />
+                      </div>
+                    )}
+
+                    <div className="border-t border-gray-700 pt-4">
+                      <div className="text-xs text-gray-500 space-y-1">
+                        <p>⌨️ Keyboard shortcuts:</p>
+                        <p>Ctrl/Cmd + Plus: Zoom in</p>
+                        <p>Ctrl/Cmd + Minus: Zoom out</p>
+                        <p>Ctrl/Cmd + 0: Reset zoom</p>
+                        <p>Ctrl/Cmd + Wheel: Zoom PDF at cursor</p>
+                        <p>Ctrl/Cmd + F: Find in PDF</p>
+                        <p>💡 Layout zoom affects the entire document view</p>
+                      </div>
                     </div>
                   </div>
-                </div>
-              </SheetContent>
-            </Sheet>
-          </div>
-        </div>
-      </header>
-
-      {/* Main Content - Fixed container with proper scrolling */}
-      <main 
-        ref={mainRef}
-        className="flex-1 overflow-auto"
-        style={{
-          height: 'calc(100vh - 80px)', // Subtract header height
-        }}
-      >
-        {!documentFile ? (
-          <div
-            className="flex flex-col items-center justify-center h-full p-8 w-full"
-            onDrop={handleDrop}
-            onDragOver={handleDragOver}
-          >
-            <Card className="p-12 text-center max-w-md bg-gray-800 border-gray-600 hover:bg-gray-750 transition-colors shadow-xl">
-              <Upload className="w-16 h-16 mx-auto mb-4 text-gray-400" />
-              <h2 className="text-xl font-semibold mb-2 text-gray-100">Upload a Document</h2>
-              <p className="text-gray-400 mb-6">Drag and drop a document here, or click to select one</p>
-              <div className="space-y-3">
-                <Button
-                  onClick={() => fileInputRef.current?.click()}
-                  className="w-full bg-blue-600 hover:bg-blue-700"
-                >
-                  Select Document
-                </Button>
-                <div className="text-xs text-gray-500">Supported formats: PDF, DOCX, DOC, TXT</div>
-              </div>
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept=".pdf,.docx,.doc,.txt,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,application/msword,text/plain"
-                onChange={handleFileSelect}
-                className="hidden"
-              />
-            </Card>
+                </SheetContent>
+              </Sheet>
+            </div>
           </div>
-        ) : (
-          // Fixed scrollable container for zoomed content
-          <div 
-            className="w-full h-full overflow-auto"
+        </header>
+
+        {fileType === "pdf" && pdfDocument && documentFile && (
+          <PDFPropertiesDialog
+            pdfDoc={pdfDocument}
+            fileName={documentFile.name}
+            open={propertiesOpen}
+            onOpenChange={setPropertiesOpen}
+          />
+        )}
+
+        {fileType === "word" && documentFile && (
+          <WordDiagnosticsDialog
+            messages={conversionMessages}
+            fileName={documentFile.name}
+            open={diagnosticsOpen}
+            onOpenChange={setDiagnosticsOpen}
+          />
+        )}
+
+        <AlertDialog open={downloadError !== null} onOpenChange={(open) => !open && setDownloadError(null)}>
+          <AlertDialogContent className="bg-gray-800 border-gray-700">
+            <AlertDialogHeader>
+              <AlertDialogTitle className="text-gray-100">Download Failed</AlertDialogTitle>
+              <AlertDialogDescription className="text-gray-300">{downloadError}</AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogAction className="bg-blue-600 hover:bg-blue-700 text-white">OK</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        {searchOpen && fileType === "pdf" && pdfDocument && (
+          <PDFSearchBar
+            pdfDoc={pdfDocument}
+            onPageChange={setCurrentPage}
+            onHighlightsChange={setSearchHighlights}
+            onClose={() => setSearchOpen(false)}
+          />
+        )}
+
+        <div className="flex">
+          {fileType === "pdf" && pdfDocument && (
+            <PDFSidebar
+              pdfDoc={pdfDocument}
+              currentPage={currentPage}
+              theme={theme}
+              rotations={rotations}
+              onPageChange={setCurrentPage}
+              onRotatePage={rotatePage}
+              onOpenFile={openAttachment}
+            />
+          )}
+
+          {/* Main Content - Fixed container with proper scrolling */}
+          <main 
+            ref={mainRef}
+            className="flex-1 min-w-0 overflow-auto"
             style={{
-              // Ensure the container can handle the zoomed content dimensions
-              minWidth: '100%',
-              minHeight: '100%',
+              height: 'calc(100vh - 80px)', // Subtract header height
             }}
           >
-            <div 
-              className="p-4"
-              style={{
-                transform: `scale(${zoom})`,
-                transformOrigin: 'top left', // Changed from 'top center' to 'top left'
-                transition: 'transform 0.2s ease-in-out',
-                // Calculate the actual width needed for the scaled content
-                width: `${100 / zoom}%`,
-                minWidth: `${800 / zoom}px`, // Minimum width to ensure content isn't too narrow
-                // Ensure the scaled container takes up the right amount of space
-                height: 'max-content',
-              }}
-            >
-              <div className="w-full max-w-4xl mx-auto">
-                {fileType === "pdf" ? (
+            {!documentFile ? (
+              <div
+                className="flex flex-col items-center justify-center h-full p-8 w-full"
+                onDrop={handleDrop}
+                onDragOver={handleDragOver}
+              >
+                <Card className="p-12 text-center max-w-md bg-gray-800 border-gray-600 hover:bg-gray-750 transition-colors shadow-xl">
+                  <Upload className="w-16 h-16 mx-auto mb-4 text-gray-400" />
+                  <h2 className="text-xl font-semibold mb-2 text-gray-100">Upload a Document</h2>
+                  <p className="text-gray-400 mb-6">Drag and drop a document here, or click to select one</p>
+                  <div className="space-y-3">
+                    <Button
+                      onClick={() => fileInputRef.current?.click()}
+                      className="w-full bg-blue-600 hover:bg-blue-700"
+                    >
+                      Select Document
+                    </Button>
+                    <div className="text-xs text-gray-500">Supported formats: PDF, DOCX, DOC, TXT</div>
+                  </div>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".pdf,.docx,.doc,.txt,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,application/msword,text/plain"
+                    onChange={handleFileSelect}
+                    className="hidden"
+                  />
+                </Card>
+              </div>
+            ) : fileType === "pdf" ? (
+              // PDFs re-render at the zoomed scale, so their container is never transformed
+              <div ref={pdfScrollRef} className="w-full h-full overflow-auto">
+                <div ref={pdfContentRef} className="p-4 w-max min-w-full">
                   <PDFViewer
                     file={documentFile}
                     currentPage={currentPage}
-                    zoom={1.0} // Pass 1.0 since we're handling zoom at layout level
-                    rotation={rotation}
+                    zoom={pdfZoom}
+                    zoomMode={pdfZoomMode}
+                    availableSize={pdfAreaSize}
+                    rotations={rotations}
                     theme={theme}
                     autoScroll={autoScroll}
                     scrollSpeed={scrollSpeed}
+                    continuousScroll={continuousScroll}
+                    pageLayout={pageLayout}
+                    coverPage={coverPage}
+                    reflow={reflow}
                     contrast={contrast}
                     brightness={brightness}
+                    smartDarkMode={smartDarkMode}
+                    markingImageRegions={smartDarkMode && markingImageRegions}
+                    imageRegions={imageRegions}
+                    onImageRegionAdd={addImageRegion}
+                    searchHighlights={searchHighlights}
                     onPageChange={setCurrentPage}
                     onTotalPagesChange={setTotalPages}
+                    onDocumentLoad={setPdfDocument}
+                    onZoomChange={handlePdfZoomChange}
+                    onExitReflow={exitReflow}
                   />
-                ) : fileType === "word" ? (
-                  <WordViewer
-                    file={documentFile}
-                    zoom={1.0} // Pass 1.0 since we're handling zoom at layout level
-                    theme={theme}
-                    contrast={contrast}
-                    brightness={brightness}
-                    onTotalPagesChange={setTotalPages}
-                  />
-                ) : fileType === "text" ? (
-                  <TextViewer
-                    file={documentFile}
-                    zoom={1.0} // Pass 1.0 since we're handling zoom at layout level
-                    theme={theme}
-                    contrast={contrast}
-                    brightness={brightness}
-                    onTotalPagesChange={setTotalPages}
-                  />
-                ) : null}
+                </div>
               </div>
-            </div>
-          </div>
-        )}
-      </main>
+            ) : (
+              // Fixed scrollable container for zoomed content
+              <div 
+                className="w-full h-full overflow-auto"
+                style={{
+                  // Ensure the container can handle the zoomed content dimensions
+                  minWidth: '100%',
+                  minHeight: '100%',
+                }}
+              >
+                <div 
+                  className="p-4"
+                  style={{
+                    transform: `scale(${zoom})`,
+                    transformOrigin: 'top left', // Changed from 'top center' to 'top left'
+                    transition: 'transform 0.2s ease-in-out',
+                    // Calculate the actual width needed for the scaled content
+                    width: `${100 / zoom}%`,
+                    minWidth: `${800 / zoom}px`, // Minimum width to ensure content isn't too narrow
+                    // Ensure the scaled container takes up the right amount of space
+                    height: 'max-content',
+                  }}
+                >
+                  <div className="w-full max-w-4xl mx-auto">
+                    {fileType === "word" ? (
+                      <WordViewer
+                        file={documentFile}
+                        zoom={1.0} // Pass 1.0 since we're handling zoom at layout level
+                        theme={theme}
+                        contrast={contrast}
+                        brightness={brightness}
+                        onTotalPagesChange={setTotalPages}
+                        styleMap={styleMap}
+                        imageTreatment={imageTreatments[theme]}
+                        onMessagesChange={setConversionMessages}
+                      />
+                    ) : fileType === "text" ? (
+                      <TextViewer
+                        file={documentFile}
+                        zoom={1.0} // Pass 1.0 since we're handling zoom at layout level
+                        theme={theme}
+                        contrast={contrast}
+                        brightness={brightness}
+                        onTotalPagesChange={setTotalPages}
+                      />
+                    ) : null}
+                  </div>
+                </div>
+              </div>
+            )}
+          </main>
+        </div>
+      </PDFSidebarScope>
     </div>
   )
 }
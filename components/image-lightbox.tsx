@@ -0,0 +1,117 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { ZoomIn, ZoomOut, Maximize2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import type { WordImage } from "@/lib/word-images"
+
+interface ImageLightboxProps {
+  image: WordImage | null
+  onClose: () => void
+}
+
+const MIN_ZOOM = 0.1
+const MAX_ZOOM = 8
+const ZOOM_FACTOR = 1.25
+
+function clampZoom(zoom: number) {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom))
+}
+
+export default function ImageLightbox({ image, onClose }: ImageLightboxProps) {
+  // The dialog mounts its content after opening, so the viewport is tracked as state
+  const [viewport, setViewport] = useState<HTMLDivElement | null>(null)
+  const [zoom, setZoom] = useState(1)
+  const [fitZoom, setFitZoom] = useState(1)
+
+  // Each image opens scaled down to fit, never enlarged past its natural size
+  useEffect(() => {
+    if (!image) return
+    const fit =
+      image.width && image.height
+        ? Math.min(1, (window.innerWidth * 0.85) / image.width, (window.innerHeight * 0.7) / image.height)
+        : 1
+    setFitZoom(fit)
+    setZoom(fit)
+  }, [image])
+
+  // Ctrl/Cmd + wheel zooms, a plain wheel scrolls the enlarged image
+  useEffect(() => {
+    if (!viewport) return
+
+    const handleWheel = (event: WheelEvent) => {
+      if (!event.ctrlKey && !event.metaKey) return
+      event.preventDefault()
+      setZoom((prev) => clampZoom(event.deltaY < 0 ? prev * ZOOM_FACTOR : prev / ZOOM_FACTOR))
+    }
+
+    viewport.addEventListener("wheel", handleWheel, { passive: false })
+    return () => viewport.removeEventListener("wheel", handleWheel)
+  }, [viewport])
+
+  const details = image
+    ? [
+        image.width && image.height ? `${image.width} × ${image.height} px` : "Size unknown",
+        image.contentType.replace(/^image\//, "").toUpperCase(),
+        image.hasTransparency && "transparent",
+        image.isLineArt && "line art",
+      ]
+        .filter(Boolean)
+        .join(" · ")
+    : ""
+
+  return (
+    <Dialog open={image !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-gray-800 border-gray-700 text-gray-100 max-w-[90vw] w-auto">
+        <DialogHeader>
+          <DialogTitle className="text-gray-100 pr-6 truncate">{image?.alt || "Image"}</DialogTitle>
+          <DialogDescription className="text-gray-400">{details}</DialogDescription>
+        </DialogHeader>
+
+        <div
+          ref={setViewport}
+          className="max-w-[85vw] max-h-[70vh] overflow-auto rounded bg-gray-900"
+          onDoubleClick={() => setZoom((prev) => (prev === fitZoom ? 1 : fitZoom))}
+        >
+          {image && (
+            <img
+              src={image.src}
+              alt={image.alt ?? ""}
+              className="block max-w-none"
+              style={image.width ? { width: image.width * zoom, height: image.height * zoom } : undefined}
+            />
+          )}
+        </div>
+
+        <div className="flex items-center justify-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setZoom((prev) => clampZoom(prev / ZOOM_FACTOR))}
+            title="Zoom Out"
+          >
+            <ZoomOut className="w-4 h-4" />
+          </Button>
+          <span className="text-sm min-w-[4rem] text-center bg-gray-700 px-2 py-1 rounded border border-gray-600">
+            {Math.round(zoom * 100)}%
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setZoom((prev) => clampZoom(prev * ZOOM_FACTOR))}
+            title="Zoom In"
+          >
+            <ZoomIn className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setZoom(fitZoom)} title="Fit to Window">
+            <Maximize2 className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setZoom(1)} title="Actual Size">
+            1:1
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,89 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import { getPageLabel, resolvePageInput } from "@/lib/pdf-page-labels"
+
+interface PageNumberInputProps {
+  firstVisiblePage: number
+  lastVisiblePage: number
+  totalPages: number
+  pageLabels: string[] | null
+  onPageChange: (page: number) => void
+}
+
+export default function PageNumberInput({
+  firstVisiblePage,
+  lastVisiblePage,
+  totalPages,
+  pageLabels,
+  onPageChange,
+}: PageNumberInputProps) {
+  const currentLabel = getPageLabel(pageLabels, firstVisiblePage)
+  const [value, setValue] = useState(currentLabel)
+  const [invalid, setInvalid] = useState(false)
+
+  // Follow page changes made elsewhere
+  useEffect(() => {
+    setValue(currentLabel)
+    setInvalid(false)
+  }, [currentLabel])
+
+  const commit = () => {
+    const pageNumber = resolvePageInput(value, pageLabels, totalPages)
+    if (pageNumber === null) {
+      setInvalid(true)
+      return
+    }
+    setInvalid(false)
+    setValue(getPageLabel(pageLabels, pageNumber))
+    onPageChange(pageNumber)
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault()
+      commit()
+    } else if (event.key === "Escape") {
+      event.preventDefault()
+      setValue(currentLabel)
+      setInvalid(false)
+      event.currentTarget.blur()
+    }
+  }
+
+  const handleBlur = () => {
+    setValue(currentLabel)
+    setInvalid(false)
+  }
+
+  const isSpread = firstVisiblePage !== lastVisiblePage
+  const physicalRange = isSpread ? `${firstVisiblePage}–${lastVisiblePage}` : String(firstVisiblePage)
+
+  return (
+    <span className="flex items-center gap-1 opacity-70 ml-2 focus-within:opacity-100">
+      <span>{isSpread ? "Pages" : "Page"}</span>
+      <input
+        value={value}
+        onChange={(event) => {
+          setValue(event.target.value)
+          setInvalid(false)
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={handleBlur}
+        onFocus={(event) => event.currentTarget.select()}
+        size={Math.max(value.length, 2)}
+        className={`rounded bg-gray-600 px-1 text-center text-gray-100 outline-none focus:ring-1 ${
+          invalid ? "ring-1 ring-red-400" : "focus:ring-blue-400"
+        }`}
+        title={invalid ? "No page has that label or number" : "Go to page (label or number)"}
+        aria-label="Go to page"
+        aria-invalid={invalid}
+      />
+      {isSpread && <span>–{getPageLabel(pageLabels, lastVisiblePage)}</span>}
+      <span>
+        {pageLabels ? `(${physicalRange} of ${totalPages})` : `of ${totalPages}`}
+      </span>
+    </span>
+  )
+}
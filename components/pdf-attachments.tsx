@@ -0,0 +1,90 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Download, ExternalLink, Loader2, Paperclip } from "lucide-react"
+import type { PDFDocumentProxy } from "pdfjs-dist"
+import { Button } from "@/components/ui/button"
+import { formatFileSize } from "@/lib/files"
+import {
+  attachmentToFile,
+  downloadAttachment,
+  getAttachments,
+  isReadableAttachment,
+  type PDFAttachment,
+} from "@/lib/pdf-attachments"
+
+interface PDFAttachmentsProps {
+  pdfDoc: PDFDocumentProxy
+  onOpenFile: (file: File) => void
+}
+
+export default function PDFAttachments({ pdfDoc, onOpenFile }: PDFAttachmentsProps) {
+  const [attachments, setAttachments] = useState<PDFAttachment[] | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setAttachments(null)
+
+    getAttachments(pdfDoc)
+      .then((result) => !cancelled && setAttachments(result))
+      .catch((error) => {
+        console.error("Error loading PDF attachments:", error)
+        if (!cancelled) setAttachments([])
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [pdfDoc])
+
+  if (!attachments) {
+    return (
+      <div className="flex items-center gap-2 p-4 text-sm text-gray-400">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        <span>Loading attachments...</span>
+      </div>
+    )
+  }
+
+  if (attachments.length === 0) {
+    return <div className="p-4 text-sm text-gray-400">This document has no attachments.</div>
+  }
+
+  return (
+    <ul className="flex flex-col gap-1">
+      {attachments.map((attachment) => (
+        <li key={attachment.id} className="flex items-center gap-2 rounded-md p-2 hover:bg-sidebar-accent/50">
+          <Paperclip className="w-4 h-4 shrink-0 text-gray-400" />
+          <div className="min-w-0 flex-1">
+            <div className="truncate text-sm" title={attachment.description ?? attachment.filename}>
+              {attachment.filename}
+            </div>
+            <div className="text-xs text-gray-400">{formatFileSize(attachment.content.byteLength)}</div>
+          </div>
+          {isReadableAttachment(attachment) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0"
+              onClick={() => onOpenFile(attachmentToFile(attachment))}
+              title="Open in Reader"
+              aria-label={`Open ${attachment.filename} in the reader`}
+            >
+              <ExternalLink className="w-4 h-4" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0"
+            onClick={() => downloadAttachment(attachment)}
+            title="Download"
+            aria-label={`Download ${attachment.filename}`}
+          >
+            <Download className="w-4 h-4" />
+          </Button>
+        </li>
+      ))}
+    </ul>
+  )
+}
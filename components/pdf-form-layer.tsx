@@ -0,0 +1,100 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import type { PDFDocumentProxy } from "pdfjs-dist"
+import { setFormFieldValue, type FormField, type FormFieldValue } from "@/lib/pdf-forms"
+
+interface PDFFormLayerProps {
+  pdfDoc: PDFDocumentProxy
+  // Rects already converted to canvas pixels
+  fields: FormField[]
+}
+
+export default function PDFFormLayer({ pdfDoc, fields }: PDFFormLayerProps) {
+  const [values, setValues] = useState<Record<string, FormFieldValue>>({})
+
+  useEffect(() => {
+    setValues(Object.fromEntries(fields.map((field) => [field.id, field.value])))
+  }, [fields])
+
+  const update = (field: FormField, value: FormFieldValue) => {
+    setValues((prev) => {
+      const next = { ...prev, [field.id]: value }
+      if (field.kind === "radio" && value === true) {
+        for (const other of fields) {
+          if (other.kind === "radio" && other.name === field.name && other.id !== field.id) next[other.id] = false
+        }
+      }
+      return next
+    })
+    setFormFieldValue(pdfDoc, field, value).catch((error) => console.error("Error updating form field:", error))
+  }
+
+  const renderField = (field: FormField) => {
+    const [x1, y1, x2, y2] = field.rect
+    const height = y2 - y1
+    const style: React.CSSProperties = {
+      left: x1,
+      top: y1,
+      width: x2 - x1,
+      height,
+      fontSize: field.kind === "text" && field.multiLine ? Math.min(height * 0.7, 14) : Math.max(height * 0.65, 8),
+    }
+    const common = {
+      style,
+      disabled: field.readOnly,
+      title: field.name,
+      "aria-label": field.name,
+      className: `pdf-form-field field-${field.kind}`,
+    }
+
+    switch (field.kind) {
+      case "text": {
+        const value = (values[field.id] as string | undefined) ?? field.value
+        const props = {
+          ...common,
+          value,
+          maxLength: field.maxLength || undefined,
+          onChange: (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+            update(field, event.target.value),
+        }
+        return field.multiLine ? <textarea key={field.id} {...props} /> : <input key={field.id} type="text" {...props} />
+      }
+      case "checkbox":
+      case "radio":
+        return (
+          <input
+            key={field.id}
+            type={field.kind}
+            {...common}
+            name={field.kind === "radio" ? field.name : undefined}
+            checked={(values[field.id] as boolean | undefined) ?? field.value}
+            onChange={(event) => update(field, event.target.checked)}
+          />
+        )
+      case "choice": {
+        const value = (values[field.id] as string[] | undefined) ?? field.value
+        return (
+          <select
+            key={field.id}
+            {...common}
+            multiple={field.multiSelect}
+            size={field.combo ? undefined : Math.max(2, Math.floor(height / 16))}
+            value={field.multiSelect ? value : (value[0] ?? "")}
+            onChange={(event) => update(field, Array.from(event.target.selectedOptions, (option) => option.value))}
+          >
+            {field.combo && !field.multiSelect && value.length === 0 && <option value="" />}
+            {field.options.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        )
+      }
+    }
+  }
+
+  return <div className="formLayer absolute inset-0 pointer-events-none">{fields.map(renderField)}</div>
+}
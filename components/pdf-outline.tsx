@@ -0,0 +1,201 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { ChevronRight, Loader2 } from "lucide-react"
+import type { PDFDocumentProxy } from "pdfjs-dist"
+import {
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSub,
+  SidebarMenuSubButton,
+  SidebarMenuSubItem,
+} from "@/components/ui/sidebar"
+import { resolveDestinationPage } from "@/lib/pdf-destinations"
+
+interface OutlineEntry {
+  id: string
+  title: string
+  pageNumber: number | null
+  bold: boolean
+  italic: boolean
+  defaultOpen: boolean
+  children: OutlineEntry[]
+}
+
+interface PDFOutlineProps {
+  pdfDoc: PDFDocumentProxy
+  currentPage: number
+  onNavigate: (page: number) => void
+}
+
+type OutlineNode = Awaited<ReturnType<PDFDocumentProxy["getOutline"]>>[number]
+
+async function buildOutline(pdfDoc: PDFDocumentProxy, nodes: OutlineNode[], parentId = ""): Promise<OutlineEntry[]> {
+  return Promise.all(
+    nodes.map(async (node, index) => {
+      const id = `${parentId}${index}`
+      return {
+        id,
+        title: node.title,
+        pageNumber: await resolveDestinationPage(pdfDoc, node.dest),
+        bold: node.bold,
+        italic: node.italic,
+        defaultOpen: (node.count ?? 0) > 0,
+        children: await buildOutline(pdfDoc, node.items ?? [], `${id}.`),
+      }
+    }),
+  )
+}
+
+// The entry we're reading is the one starting closest before or on the current page. Outlines aren't
+// always in page order; between entries on the same page, the later one in the outline wins.
+function findActiveEntry(entries: OutlineEntry[], currentPage: number): string | null {
+  let active: string | null = null
+  let activePage = 0
+  const visit = (items: OutlineEntry[]) => {
+    for (const item of items) {
+      if (item.pageNumber !== null && item.pageNumber <= currentPage && item.pageNumber >= activePage) {
+        active = item.id
+        activePage = item.pageNumber
+      }
+      visit(item.children)
+    }
+  }
+  visit(entries)
+  return active
+}
+
+export default function PDFOutline({ pdfDoc, currentPage, onNavigate }: PDFOutlineProps) {
+  const [outline, setOutline] = useState<OutlineEntry[] | null>(null)
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+
+  useEffect(() => {
+    let cancelled = false
+    setOutline(null)
+
+    const loadOutline = async () => {
+      try {
+        const nodes = (await pdfDoc.getOutline()) ?? []
+        const entries = await buildOutline(pdfDoc, nodes)
+        if (cancelled) return
+
+        const openIds = new Set<string>()
+        const collectOpen = (items: OutlineEntry[]) =>
+          items.forEach((item) => {
+            if (item.defaultOpen) openIds.add(item.id)
+            collectOpen(item.children)
+          })
+        collectOpen(entries)
+
+        setExpanded(openIds)
+        setOutline(entries)
+      } catch (error) {
+        console.error("Error loading PDF outline:", error)
+        if (!cancelled) setOutline([])
+      }
+    }
+
+    loadOutline()
+
+    return () => {
+      cancelled = true
+    }
+  }, [pdfDoc])
+
+  const activeId = useMemo(() => (outline ? findActiveEntry(outline, currentPage) : null), [outline, currentPage])
+
+  const toggle = (id: string) =>
+    setExpanded((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+
+  if (!outline) {
+    return (
+      <div className="flex items-center gap-2 p-4 text-sm text-gray-400">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        <span>Loading outline...</span>
+      </div>
+    )
+  }
+
+  if (outline.length === 0) {
+    return <div className="p-4 text-sm text-gray-400">This document has no outline.</div>
+  }
+
+  const renderLabel = (entry: OutlineEntry) => (
+    <span
+      className={`${entry.bold ? "font-semibold" : ""} ${entry.italic ? "italic" : ""}`}
+      title={entry.pageNumber ? `${entry.title} (page ${entry.pageNumber})` : entry.title}
+    >
+      {entry.title}
+    </span>
+  )
+
+  const renderChildren = (entry: OutlineEntry) =>
+    entry.children.length > 0 &&
+    expanded.has(entry.id) && (
+      <SidebarMenuSub>
+        {entry.children.map((child) => (
+          <SidebarMenuSubItem key={child.id} className="relative">
+            <SidebarMenuSubButton
+              asChild
+              isActive={child.id === activeId}
+              aria-disabled={child.pageNumber === null}
+            >
+              <button
+                type="button"
+                className="w-full pr-6"
+                onClick={() => child.pageNumber && onNavigate(child.pageNumber)}
+              >
+                {renderLabel(child)}
+              </button>
+            </SidebarMenuSubButton>
+            {child.children.length > 0 && (
+              <button
+                type="button"
+                className="absolute right-1 top-1.5 text-sidebar-foreground/70 hover:text-sidebar-foreground"
+                onClick={() => toggle(child.id)}
+                aria-label={expanded.has(child.id) ? "Collapse section" : "Expand section"}
+              >
+                <ChevronRight
+                  className={`w-4 h-4 transition-transform ${expanded.has(child.id) ? "rotate-90" : ""}`}
+                />
+              </button>
+            )}
+            {renderChildren(child)}
+          </SidebarMenuSubItem>
+        ))}
+      </SidebarMenuSub>
+    )
+
+  return (
+    <SidebarMenu>
+      {outline.map((entry) => (
+        <SidebarMenuItem key={entry.id}>
+          <SidebarMenuButton
+            isActive={entry.id === activeId}
+            disabled={entry.pageNumber === null}
+            onClick={() => entry.pageNumber && onNavigate(entry.pageNumber)}
+            className="pr-8"
+          >
+            {renderLabel(entry)}
+          </SidebarMenuButton>
+          {entry.children.length > 0 && (
+            <SidebarMenuAction
+              onClick={() => toggle(entry.id)}
+              aria-label={expanded.has(entry.id) ? "Collapse section" : "Expand section"}
+            >
+              <ChevronRight className={`transition-transform ${expanded.has(entry.id) ? "rotate-90" : ""}`} />
+            </SidebarMenuAction>
+          )}
+          {renderChildren(entry)}
+        </SidebarMenuItem>
+      ))}
+    </SidebarMenu>
+  )
+}
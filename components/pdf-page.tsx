@@ -0,0 +1,283 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useRef, useState } from "react"
+import { AlertCircle } from "lucide-react"
+import type { PageViewport, PDFDocumentProxy, TextLayer } from "pdfjs-dist"
+import { loadPdfjs } from "@/lib/pdfjs"
+import type { TextHighlight } from "@/lib/pdf-search"
+import PDFFormLayer from "@/components/pdf-form-layer"
+import { getPageFormFields, type FormField } from "@/lib/pdf-forms"
+import { getPageLinks, type PageLink } from "@/lib/pdf-links"
+import { toPdfRegion, toViewportRegion, type PageRegion } from "@/lib/pdf-images"
+import { requestPageRender, type PageRenderRequest } from "@/lib/pdf-render-queue"
+import { getPageRotation } from "@/lib/pdf-rotation"
+import { getPageFrameStyles } from "@/lib/pdf-theme"
+
+interface PDFPageProps {
+  pdfDoc: PDFDocumentProxy
+  pageNumber: number
+  scale: number
+  rotation: number
+  theme: "dark" | "sepia" | "high-contrast"
+  contrast: number
+  brightness: number
+  smartDarkMode?: boolean
+  imageRegions?: PageRegion[]
+  markingImageRegions?: boolean
+  onImageRegionAdd?: (pageNumber: number, region: PageRegion) => void
+  highlights?: TextHighlight[]
+  onLinkClick?: (link: PageLink) => void
+}
+
+export default function PDFPage({
+  pdfDoc,
+  pageNumber,
+  scale,
+  rotation,
+  theme,
+  contrast,
+  brightness,
+  smartDarkMode = false,
+  imageRegions,
+  markingImageRegions = false,
+  onImageRegionAdd,
+  highlights,
+  onLinkClick,
+}: PDFPageProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const textLayerRef = useRef<HTMLDivElement>(null)
+  const viewportRef = useRef<PageViewport | null>(null)
+  const renderedTextLayerRef = useRef<TextLayer | null>(null)
+  const highlightedItemsRef = useRef<number[]>([])
+  const highlightsRef = useRef(highlights)
+  const dragStartRef = useRef<[number, number] | null>(null)
+  const [draftRegion, setDraftRegion] = useState<PageRegion | null>(null)
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null)
+  const [links, setLinks] = useState<PageLink[]>([])
+  const [formFields, setFormFields] = useState<FormField[]>([])
+  const [error, setError] = useState<string>("")
+
+  useEffect(() => {
+    if (!canvasRef.current || !textLayerRef.current) return
+    let cancelled = false
+    let textLayer: TextLayer | null = null
+    let renderRequest: PageRenderRequest | null = null
+
+    const renderPage = async () => {
+      setError("")
+      setLinks([])
+      setFormFields([])
+      const pdfjsLib = await loadPdfjs()
+      const canvas = canvasRef.current!
+
+      const page = await pdfDoc.getPage(pageNumber)
+      if (cancelled) return
+      const viewport = page.getViewport({ scale, rotation: getPageRotation(page, rotation) })
+      viewportRef.current = viewport
+      setSize({ width: viewport.width, height: viewport.height })
+
+      // The canvas gets one pixel per device pixel so text stays sharp on high-density screens.
+      // It keeps showing the previous bitmap, stretched, until the new one is ready.
+      renderRequest = requestPageRender(pdfDoc, pageNumber, {
+        scale: scale * (window.devicePixelRatio || 1),
+        rotation,
+        theme,
+        smartDarkMode,
+        imageRegions,
+      })
+      const bitmap = await renderRequest.promise
+      if (cancelled) return
+      canvas.width = bitmap.width
+      canvas.height = bitmap.height
+      canvas.getContext("2d")!.drawImage(bitmap, 0, 0)
+
+      // Invisible text positioned over the canvas so it can be selected and copied
+      const container = textLayerRef.current
+      if (cancelled || !container) return
+      container.replaceChildren()
+      container.style.setProperty("--total-scale-factor", String(viewport.scale))
+      textLayer = new pdfjsLib.TextLayer({
+        textContentSource: page.streamTextContent(),
+        container,
+        viewport,
+      })
+      await textLayer.render()
+
+      const endOfContent = document.createElement("div")
+      endOfContent.className = "endOfContent"
+      container.append(endOfContent)
+
+      renderedTextLayerRef.current = textLayer
+      highlightedItemsRef.current = []
+      applyHighlights(false)
+
+      // Link annotations aren't drawn by the canvas renderer, so they're overlaid as anchors
+      const [pageLinks, pageFormFields] = await Promise.all([
+        getPageLinks(pdfDoc, page),
+        getPageFormFields(pdfDoc, page),
+      ])
+      if (cancelled) return
+      setLinks(pageLinks.map((link) => ({ ...link, rect: toViewportRegion(viewport, link.rect) })))
+      setFormFields(pageFormFields.map((field) => ({ ...field, rect: toViewportRegion(viewport, field.rect) })))
+    }
+
+    renderPage().catch((error) => {
+      if (error?.name === "AbortException" || error?.name === "RenderingCancelledException") return
+      console.error("Error rendering PDF page:", error)
+      setError(`Failed to render page ${pageNumber}.`)
+    })
+
+    return () => {
+      cancelled = true
+      renderRequest?.cancel()
+      textLayer?.cancel()
+    }
+  }, [pdfDoc, pageNumber, scale, rotation, theme, smartDarkMode, imageRegions])
+
+  // Wraps search hits inside the text layer's spans, restoring spans highlighted previously
+  const applyHighlights = (scrollToSelected: boolean) => {
+    const textLayer = renderedTextLayerRef.current
+    if (!textLayer) return
+
+    const { textDivs, textContentItemsStr } = textLayer
+    for (const itemIndex of highlightedItemsRef.current) {
+      if (textDivs[itemIndex]) textDivs[itemIndex].textContent = textContentItemsStr[itemIndex]
+    }
+
+    const byItem = new Map<number, TextHighlight[]>()
+    for (const highlight of highlightsRef.current ?? []) {
+      byItem.set(highlight.itemIndex, [...(byItem.get(highlight.itemIndex) ?? []), highlight])
+    }
+
+    let selectedElement: HTMLElement | null = null
+    for (const [itemIndex, itemHighlights] of byItem) {
+      const textDiv = textDivs[itemIndex]
+      const text = textContentItemsStr[itemIndex]
+      if (!textDiv || text === undefined) continue
+
+      let offset = 0
+      textDiv.replaceChildren()
+      for (const { start, end, selected } of itemHighlights.sort((a, b) => a.start - b.start)) {
+        if (start > offset) textDiv.append(text.slice(offset, start))
+        const mark = document.createElement("span")
+        mark.className = selected ? "highlight selected" : "highlight"
+        mark.textContent = text.slice(start, end)
+        textDiv.append(mark)
+        if (selected && !selectedElement) selectedElement = mark
+        offset = end
+      }
+      if (offset < text.length) textDiv.append(text.slice(offset))
+    }
+
+    highlightedItemsRef.current = [...byItem.keys()]
+    if (scrollToSelected) selectedElement?.scrollIntoView({ block: "center", inline: "nearest" })
+  }
+
+  useEffect(() => {
+    highlightsRef.current = highlights
+    applyHighlights(true)
+    // applyHighlights only reads refs
+  }, [highlights])
+
+  // Stretch the end-of-content marker while dragging so selections don't jump across gaps
+  const handleSelectionStart = () => textLayerRef.current?.classList.add("selecting")
+  const handleSelectionEnd = () => textLayerRef.current?.classList.remove("selecting")
+
+  // Dragging a rectangle marks a region to keep in true colour in smart dark mode
+  const getCanvasPoint = (event: React.PointerEvent<HTMLDivElement>): [number, number] => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    const ratio = size ? size.width / rect.width : 1
+    return [(event.clientX - rect.left) * ratio, (event.clientY - rect.top) * ratio]
+  }
+
+  const handleMarkStart = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId)
+    dragStartRef.current = getCanvasPoint(event)
+  }
+
+  const handleMarkMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStartRef.current
+    if (!start) return
+    const [x, y] = getCanvasPoint(event)
+    setDraftRegion([Math.min(start[0], x), Math.min(start[1], y), Math.max(start[0], x), Math.max(start[1], y)])
+  }
+
+  const handleMarkEnd = () => {
+    dragStartRef.current = null
+    if (draftRegion && viewportRef.current) {
+      const [x1, y1, x2, y2] = draftRegion
+      if (x2 - x1 > 4 && y2 - y1 > 4) onImageRegionAdd?.(pageNumber, toPdfRegion(viewportRef.current, draftRegion))
+    }
+    setDraftRegion(null)
+  }
+
+  const markedRegions =
+    markingImageRegions && viewportRef.current
+      ? (imageRegions ?? []).map((region) => toViewportRegion(viewportRef.current!, region))
+      : []
+
+  return (
+    <div
+      data-theme={theme}
+      className="pdf-page relative box-content shadow-lg rounded-lg overflow-hidden transition-all duration-300"
+      style={{
+        ...getPageFrameStyles(theme, contrast, brightness),
+        width: size?.width,
+        height: size?.height,
+      }}
+    >
+      <canvas ref={canvasRef} className="block" style={{ width: size?.width, height: size?.height }} />
+      <div
+        ref={textLayerRef}
+        className="textLayer"
+        onPointerDown={handleSelectionStart}
+        onPointerUp={handleSelectionEnd}
+        onPointerLeave={handleSelectionEnd}
+      />
+      <div className="absolute inset-0 pointer-events-none">
+        {links.map((link, index) => (
+          <a
+            key={index}
+            href={link.url ?? `#page=${link.pageNumber}`}
+            className="pointer-events-auto absolute rounded-sm hover:bg-blue-400/20 focus-visible:outline focus-visible:outline-2 focus-visible:outline-blue-400"
+            style={{
+              left: link.rect[0],
+              top: link.rect[1],
+              width: link.rect[2] - link.rect[0],
+              height: link.rect[3] - link.rect[1],
+            }}
+            title={link.url ?? `Go to page ${link.pageNumber}`}
+            onClick={(event) => {
+              event.preventDefault()
+              onLinkClick?.(link)
+            }}
+          />
+        ))}
+      </div>
+      {formFields.length > 0 && <PDFFormLayer pdfDoc={pdfDoc} fields={formFields} />}
+      {markingImageRegions && (
+        <div
+          className="absolute inset-0 z-10 cursor-crosshair"
+          onPointerDown={handleMarkStart}
+          onPointerMove={handleMarkMove}
+          onPointerUp={handleMarkEnd}
+        >
+          {[...markedRegions, ...(draftRegion ? [draftRegion] : [])].map(([x1, y1, x2, y2], index) => (
+            <div
+              key={index}
+              className="absolute border-2 border-dashed border-blue-400 bg-blue-400/10"
+              style={{ left: x1, top: y1, width: x2 - x1, height: y2 - y1 }}
+            />
+          ))}
+        </div>
+      )}
+      {error && (
+        <div className="absolute inset-0 flex items-center justify-center gap-2 text-red-300 text-sm">
+          <AlertCircle className="w-4 h-4" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { KeyRound } from "lucide-react"
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+
+interface PDFPasswordDialogProps {
+  fileName: string
+  incorrect: boolean
+  onSubmit: (password: string) => void
+  onCancel: () => void
+}
+
+// The password only lives in this input until it's handed to pdf.js; it's never kept anywhere else
+export default function PDFPasswordDialog({ fileName, incorrect, onSubmit, onCancel }: PDFPasswordDialogProps) {
+  const [password, setPassword] = useState("")
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!password) return
+    onSubmit(password)
+    setPassword("")
+  }
+
+  return (
+    <AlertDialog open onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent className="bg-gray-800 border-gray-700">
+        <form onSubmit={handleSubmit} className="grid gap-4">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2 text-gray-100">
+              <KeyRound className="w-5 h-5 text-blue-400" />
+              Password Required
+            </AlertDialogTitle>
+            <AlertDialogDescription className="text-gray-300">
+              <span className="font-medium text-gray-200">{fileName}</span> is protected. Enter its password to open
+              it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          <div className="grid gap-2">
+            <Input
+              type="password"
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+              placeholder="Password"
+              autoComplete="off"
+              autoFocus
+              aria-invalid={incorrect}
+              aria-label="Document password"
+              className="bg-gray-700 border-gray-600 text-gray-100"
+            />
+            {incorrect && <p className="text-sm text-red-300">Incorrect password. Please try again.</p>}
+          </div>
+
+          <AlertDialogFooter>
+            <AlertDialogCancel type="button" className="bg-gray-700 border-gray-600 text-gray-200 hover:bg-gray-600">
+              Cancel
+            </AlertDialogCancel>
+            <Button type="submit" disabled={!password} className="bg-blue-600 hover:bg-blue-700 text-white">
+              Open
+            </Button>
+          </AlertDialogFooter>
+        </form>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
@@ -0,0 +1,113 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Loader2 } from "lucide-react"
+import type { PDFDocumentProxy } from "pdfjs-dist"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { formatFileSize } from "@/lib/files"
+import { getDocumentProperties, type DocumentProperties } from "@/lib/pdf-properties"
+
+interface PDFPropertiesDialogProps {
+  pdfDoc: PDFDocumentProxy
+  fileName: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+function formatDate(date: Date | null) {
+  return date ? date.toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" }) : null
+}
+
+function formatPageSize({ width, height, name }: DocumentProperties["pageSize"]) {
+  const millimetres = `${Math.round((width / 72) * 25.4)} × ${Math.round((height / 72) * 25.4)} mm`
+  const inches = `${(width / 72).toFixed(2)} × ${(height / 72).toFixed(2)} in`
+  return `${millimetres} (${inches})${name ? `, ${name}` : ""}`
+}
+
+export default function PDFPropertiesDialog({ pdfDoc, fileName, open, onOpenChange }: PDFPropertiesDialogProps) {
+  const [properties, setProperties] = useState<DocumentProperties | null>(null)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+    setProperties(null)
+    setError("")
+
+    getDocumentProperties(pdfDoc)
+      .then((result) => !cancelled && setProperties(result))
+      .catch((error) => {
+        console.error("Error reading PDF properties:", error)
+        if (!cancelled) setError("The document properties could not be read.")
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [pdfDoc, open])
+
+  const rows: [string, string | null][] = properties
+    ? [
+        ["File name", fileName],
+        ["File size", properties.fileSize ? formatFileSize(properties.fileSize) : null],
+        ["Title", properties.title],
+        ["Author", properties.author],
+        ["Subject", properties.subject],
+        ["Keywords", properties.keywords],
+        ["Created", formatDate(properties.creationDate)],
+        ["Modified", formatDate(properties.modificationDate)],
+        ["Application", properties.creator],
+        ["PDF producer", properties.producer],
+        ["PDF version", properties.pdfVersion],
+        ["Pages", String(properties.pageCount)],
+        ["Page size", formatPageSize(properties.pageSize)],
+        ["Tagged PDF", properties.tagged ? "Yes" : "No"],
+        ["Fast web view", properties.linearized ? "Yes" : "No"],
+      ]
+    : []
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-800 border-gray-700 text-gray-100 max-w-lg max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-gray-100">Document Properties</DialogTitle>
+          <DialogDescription className="text-gray-400">Information stored in this PDF</DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <p className="text-sm text-red-300">{error}</p>
+        ) : !properties ? (
+          <div className="flex items-center gap-2 text-sm text-gray-400">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            <span>Reading properties...</span>
+          </div>
+        ) : (
+          <>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+              {rows.map(([label, value]) => (
+                <div key={label} className="contents">
+                  <dt className="text-gray-400">{label}</dt>
+                  <dd className="text-gray-100 break-words">{value ?? "—"}</dd>
+                </div>
+              ))}
+            </dl>
+
+            {properties.xmp.length > 0 && (
+              <details className="border-t border-gray-700 pt-3 text-sm">
+                <summary className="cursor-pointer text-gray-300">XMP metadata ({properties.xmp.length})</summary>
+                <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+                  {properties.xmp.map(([name, value]) => (
+                    <div key={name} className="contents">
+                      <dt className="font-mono text-xs text-gray-400">{name}</dt>
+                      <dd className="text-gray-200 break-words">{value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </details>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
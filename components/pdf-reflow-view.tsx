@@ -0,0 +1,98 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { FileText, Loader2 } from "lucide-react"
+import type { PDFDocumentProxy } from "pdfjs-dist"
+import { extractReflowBlocks, type ReflowBlock } from "@/lib/pdf-reflow"
+import { getReadingSurfaceStyles, getReadingTextColor, READING_FONT_FAMILY } from "@/lib/reading-theme"
+
+interface PDFReflowViewProps {
+  pdfDoc: PDFDocumentProxy
+  zoom: number
+  theme: "dark" | "sepia" | "high-contrast"
+  contrast: number
+  brightness: number
+  onShowPage: (pageNumber: number) => void
+}
+
+const HEADING_SIZES = [0, 1.75, 1.4, 1.15]
+
+export default function PDFReflowView({ pdfDoc, zoom, theme, contrast, brightness, onShowPage }: PDFReflowViewProps) {
+  const [blocks, setBlocks] = useState<ReflowBlock[] | null>(null)
+  const [extractedPages, setExtractedPages] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+    setBlocks(null)
+    setExtractedPages(0)
+
+    extractReflowBlocks(pdfDoc, setExtractedPages, () => cancelled)
+      .then((result) => {
+        if (!cancelled && result) setBlocks(result)
+      })
+      .catch((error) => {
+        console.error("Error extracting PDF text:", error)
+        if (!cancelled) setBlocks([])
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [pdfDoc])
+
+  if (!blocks) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="flex items-center gap-2 text-gray-200">
+          <Loader2 className="w-6 h-6 animate-spin" />
+          <span>
+            Extracting text... {extractedPages}/{pdfDoc.numPages}
+          </span>
+        </div>
+      </div>
+    )
+  }
+
+  const textColor = getReadingTextColor(theme, contrast)
+  const fontSize = 16 * zoom
+
+  return (
+    <div className="flex justify-center">
+      <article
+        className="w-full max-w-3xl rounded-lg shadow-lg p-8 transition-all duration-300"
+        style={{ ...getReadingSurfaceStyles(theme, contrast, brightness), fontFamily: READING_FONT_FAMILY }}
+      >
+        {blocks.length === 0 && (
+          <p className="opacity-70">This PDF has no extractable text. It may be a scan without a text layer.</p>
+        )}
+        {blocks.map((block, index) => {
+          const Tag = block.type === "heading" ? (`h${block.level + 1}` as "h2" | "h3" | "h4") : "p"
+          return (
+            <div key={index} className="group relative">
+              <Tag
+                className={block.type === "heading" ? "font-semibold mt-8 mb-3" : "mb-4"}
+                style={{
+                  color: block.type === "heading" ? undefined : textColor,
+                  fontSize: block.type === "heading" ? fontSize * HEADING_SIZES[block.level] : fontSize,
+                  lineHeight: block.type === "heading" ? 1.3 : 1.7,
+                }}
+              >
+                {block.text}
+              </Tag>
+              <button
+                type="button"
+                onClick={() => onShowPage(block.pageNumber)}
+                className="absolute -right-7 top-0 flex items-center gap-0.5 text-xs opacity-0 transition-opacity group-hover:opacity-60 hover:!opacity-100 focus-visible:opacity-100"
+                title={`Show on page ${block.pageNumber}`}
+                aria-label={`Show on page ${block.pageNumber}`}
+              >
+                <FileText className="w-3 h-3" />
+                {block.pageNumber}
+              </button>
+            </div>
+          )
+        })}
+      </article>
+    </div>
+  )
+}
@@ -0,0 +1,164 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
+import { ChevronDown, ChevronUp, Loader2, Search, X } from "lucide-react"
+import type { PDFDocumentProxy } from "pdfjs-dist"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Toggle } from "@/components/ui/toggle"
+import {
+  buildSearchIndex,
+  findMatches,
+  getPageHighlights,
+  type PageTextIndex,
+  type TextHighlight,
+} from "@/lib/pdf-search"
+
+interface PDFSearchBarProps {
+  pdfDoc: PDFDocumentProxy
+  onPageChange: (page: number) => void
+  onHighlightsChange: (highlights: Record<number, TextHighlight[]>) => void
+  onClose: () => void
+}
+
+export default function PDFSearchBar({ pdfDoc, onPageChange, onHighlightsChange, onClose }: PDFSearchBarProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [index, setIndex] = useState<PageTextIndex[] | null>(null)
+  const [indexedPages, setIndexedPages] = useState(0)
+  const [query, setQuery] = useState("")
+  const [caseSensitive, setCaseSensitive] = useState(false)
+  const [wholeWord, setWholeWord] = useState(false)
+  const [selectedMatch, setSelectedMatch] = useState(0)
+
+  useEffect(() => {
+    inputRef.current?.focus()
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+    setIndex(null)
+    setIndexedPages(0)
+
+    buildSearchIndex(pdfDoc, setIndexedPages, () => cancelled)
+      .then((result) => {
+        if (!cancelled && result) setIndex(result)
+      })
+      .catch((error) => console.error("Error indexing PDF text:", error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [pdfDoc])
+
+  const matches = useMemo(
+    () => (index ? findMatches(index, query, { caseSensitive, wholeWord }) : []),
+    [index, query, caseSensitive, wholeWord],
+  )
+
+  useEffect(() => {
+    onHighlightsChange(index ? getPageHighlights(index, matches, selectedMatch) : {})
+  }, [index, matches, selectedMatch, onHighlightsChange])
+
+  useEffect(() => {
+    const match = matches[selectedMatch]
+    if (match) onPageChange(match.pageNumber)
+  }, [matches, selectedMatch, onPageChange])
+
+  // Clear the highlights when the bar closes
+  useEffect(() => () => onHighlightsChange({}), [onHighlightsChange])
+
+  const goToMatch = (offset: number) => {
+    if (matches.length === 0) return
+    setSelectedMatch((prev) => (prev + offset + matches.length) % matches.length)
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault()
+      goToMatch(event.shiftKey ? -1 : 1)
+    } else if (event.key === "Escape") {
+      event.preventDefault()
+      onClose()
+    }
+  }
+
+  const getStatus = () => {
+    if (!index) return `Indexing ${indexedPages}/${pdfDoc.numPages}`
+    if (!query.trim()) return ""
+    if (matches.length === 0) return "No results"
+    return `${selectedMatch + 1} of ${matches.length}`
+  }
+
+  return (
+    <div className="fixed top-[88px] right-4 z-20 flex items-center gap-1 rounded-lg border border-gray-600 bg-gray-800 p-2 shadow-xl">
+      <Search className="w-4 h-4 text-gray-400 ml-1" />
+      <Input
+        ref={inputRef}
+        value={query}
+        onChange={(event) => {
+          setQuery(event.target.value)
+          setSelectedMatch(0)
+        }}
+        onKeyDown={handleKeyDown}
+        placeholder="Find in document"
+        className="h-8 w-56 bg-gray-700 border-gray-600 text-gray-100"
+        aria-label="Find in document"
+      />
+
+      <span className="flex min-w-[6.5rem] items-center justify-center gap-1 text-xs text-gray-400">
+        {!index && <Loader2 className="w-3 h-3 animate-spin" />}
+        {getStatus()}
+      </span>
+
+      <Toggle
+        size="sm"
+        pressed={caseSensitive}
+        onPressedChange={(pressed) => {
+          setCaseSensitive(pressed)
+          setSelectedMatch(0)
+        }}
+        className="h-8 px-2 text-xs data-[state=on]:bg-blue-600 data-[state=on]:text-white"
+        title="Match case"
+        aria-label="Match case"
+      >
+        Aa
+      </Toggle>
+      <Toggle
+        size="sm"
+        pressed={wholeWord}
+        onPressedChange={(pressed) => {
+          setWholeWord(pressed)
+          setSelectedMatch(0)
+        }}
+        className="h-8 px-2 text-xs underline data-[state=on]:bg-blue-600 data-[state=on]:text-white"
+        title="Whole words"
+        aria-label="Whole words"
+      >
+        ab
+      </Toggle>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => goToMatch(-1)}
+        disabled={matches.length === 0}
+        title="Previous match (Shift+Enter)"
+      >
+        <ChevronUp className="w-4 h-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => goToMatch(1)}
+        disabled={matches.length === 0}
+        title="Next match (Enter)"
+      >
+        <ChevronDown className="w-4 h-4" />
+      </Button>
+      <Button variant="ghost" size="sm" onClick={onClose} title="Close (Esc)">
+        <X className="w-4 h-4" />
+      </Button>
+    </div>
+  )
+}
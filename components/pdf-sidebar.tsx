@@ -0,0 +1,67 @@
+"use client"
+
+import { ListTree } from "lucide-react"
+import type { PDFDocumentProxy } from "pdfjs-dist"
+import { Sidebar, SidebarContent, SidebarHeader } from "@/components/ui/sidebar"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import PDFAttachments from "@/components/pdf-attachments"
+import PDFOutline from "@/components/pdf-outline"
+import PDFThumbnails from "@/components/pdf-thumbnails"
+import type { PageRotations } from "@/lib/pdf-rotation"
+
+interface PDFSidebarProps {
+  pdfDoc: PDFDocumentProxy
+  currentPage: number
+  theme: "dark" | "sepia" | "high-contrast"
+  rotations: PageRotations
+  onPageChange: (page: number) => void
+  onRotatePage: (page: number) => void
+  onOpenFile: (file: File) => void
+}
+
+export default function PDFSidebar({
+  pdfDoc,
+  currentPage,
+  theme,
+  rotations,
+  onPageChange,
+  onRotatePage,
+  onOpenFile,
+}: PDFSidebarProps) {
+  return (
+    // Sits below the fixed-height header instead of covering it
+    <Sidebar className="top-[80px] h-[calc(100vh-80px)] border-gray-700">
+      <Tabs defaultValue="pages" className="flex h-full flex-col">
+        <SidebarHeader className="border-b border-sidebar-border">
+          <div className="flex items-center gap-2 px-2 text-sm font-medium">
+            <ListTree className="w-4 h-4" />
+            Contents
+          </div>
+          <TabsList className="grid w-full grid-cols-3 bg-gray-800">
+            <TabsTrigger value="pages">Pages</TabsTrigger>
+            <TabsTrigger value="outline">Outline</TabsTrigger>
+            <TabsTrigger value="attachments">Files</TabsTrigger>
+          </TabsList>
+        </SidebarHeader>
+        <SidebarContent>
+          <TabsContent value="pages" className="mt-0">
+            <PDFThumbnails
+              pdfDoc={pdfDoc}
+              currentPage={currentPage}
+              theme={theme}
+              rotations={rotations}
+              onPageChange={onPageChange}
+              onRotatePage={onRotatePage}
+            />
+          </TabsContent>
+          <TabsContent value="outline" className="mt-0 p-2">
+            <PDFOutline pdfDoc={pdfDoc} currentPage={currentPage} onNavigate={onPageChange} />
+          </TabsContent>
+          <TabsContent value="attachments" className="mt-0 p-2">
+            <PDFAttachments pdfDoc={pdfDoc} onOpenFile={onOpenFile} />
+          </TabsContent>
+        </SidebarContent>
+      </Tabs>
+    </Sidebar>
+  )
+}
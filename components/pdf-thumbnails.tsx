@@ -0,0 +1,202 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { RotateCw } from "lucide-react"
+import type { PDFDocumentProxy, RenderTask } from "pdfjs-dist"
+import { getPageRotation, type PageRotations } from "@/lib/pdf-rotation"
+import { applyPageTheme, paintPageBackground } from "@/lib/pdf-theme"
+
+// Thumbnails are rendered at this CSS width, whatever the page size
+const THUMBNAIL_WIDTH = 112
+
+interface PDFThumbnailsProps {
+  pdfDoc: PDFDocumentProxy
+  currentPage: number
+  theme: "dark" | "sepia" | "high-contrast"
+  rotations: PageRotations
+  onPageChange: (page: number) => void
+  onRotatePage: (page: number) => void
+}
+
+interface PDFThumbnailProps {
+  pdfDoc: PDFDocumentProxy
+  pageNumber: number
+  isCurrent: boolean
+  theme: "dark" | "sepia" | "high-contrast"
+  rotation: number
+  aspectRatio: number
+  enqueue: (task: () => Promise<void>) => void
+  onSelect: (page: number) => void
+  onRotate: (page: number) => void
+}
+
+function PDFThumbnail({
+  pdfDoc,
+  pageNumber,
+  isCurrent,
+  theme,
+  rotation,
+  aspectRatio,
+  enqueue,
+  onSelect,
+  onRotate,
+}: PDFThumbnailProps) {
+  const buttonRef = useRef<HTMLButtonElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [isVisible, setIsVisible] = useState(false)
+  const [renderedAspectRatio, setRenderedAspectRatio] = useState<number | null>(null)
+
+  // Only pages scrolled into the rail (or close to it) are queued for rendering
+  useEffect(() => {
+    const element = buttonRef.current
+    if (!element) return
+
+    const observer = new IntersectionObserver(([entry]) => setIsVisible(entry.isIntersecting), {
+      rootMargin: "200px 0px",
+    })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [])
+
+  useEffect(() => {
+    if (!isVisible) return
+    let cancelled = false
+    let renderTask: RenderTask | null = null
+
+    enqueue(async () => {
+      const canvas = canvasRef.current
+      if (cancelled || !canvas) return
+
+      const page = await pdfDoc.getPage(pageNumber)
+      if (cancelled) return
+      const pageRotation = getPageRotation(page, rotation)
+      const baseViewport = page.getViewport({ scale: 1, rotation: pageRotation })
+      const viewport = page.getViewport({
+        scale: (THUMBNAIL_WIDTH / baseViewport.width) * (window.devicePixelRatio || 1),
+        rotation: pageRotation,
+      })
+
+      const ctx = canvas.getContext("2d")!
+      canvas.width = viewport.width
+      canvas.height = viewport.height
+
+      paintPageBackground(ctx, theme)
+      renderTask = page.render({ canvas: null, canvasContext: ctx, viewport })
+      try {
+        await renderTask.promise
+      } catch (error) {
+        // Scrolled out of view, re-themed or closed while rendering
+        if (cancelled) return
+        throw error
+      }
+      applyPageTheme(ctx, theme)
+
+      if (!cancelled) setRenderedAspectRatio(viewport.height / viewport.width)
+    })
+
+    return () => {
+      cancelled = true
+      renderTask?.cancel()
+    }
+  }, [isVisible, pdfDoc, pageNumber, theme, rotation, enqueue])
+
+  // Keep the highlighted page in view as the reader moves through the document
+  useEffect(() => {
+    if (isCurrent) buttonRef.current?.scrollIntoView({ block: "nearest" })
+  }, [isCurrent])
+
+  // Until it renders, a turned page is assumed to be page 1 turned the same way
+  const placeholderAspectRatio = rotation % 180 ? 1 / aspectRatio : aspectRatio
+
+  return (
+    <div className="group relative">
+      <button
+        ref={buttonRef}
+        type="button"
+        onClick={() => onSelect(pageNumber)}
+        className={`flex flex-col items-center gap-1 rounded-md p-2 transition-colors ${
+          isCurrent ? "bg-sidebar-accent" : "hover:bg-sidebar-accent/50"
+        }`}
+        aria-label={`Go to page ${pageNumber}`}
+        aria-current={isCurrent ? "page" : undefined}
+      >
+        <canvas
+          ref={canvasRef}
+          className={`rounded-sm shadow transition-opacity ${renderedAspectRatio ? "opacity-100" : "opacity-40"} ${
+            isCurrent ? "ring-2 ring-blue-400" : "ring-1 ring-gray-600"
+          }`}
+          style={{
+            width: THUMBNAIL_WIDTH,
+            height: THUMBNAIL_WIDTH * (renderedAspectRatio ?? placeholderAspectRatio),
+            backgroundColor: theme === "sepia" ? "#fefbf3" : theme === "high-contrast" ? "#000000" : "#111827",
+          }}
+        />
+        <span className={`text-xs ${isCurrent ? "text-blue-300 font-medium" : "text-gray-400"}`}>{pageNumber}</span>
+      </button>
+      <button
+        type="button"
+        onClick={() => onRotate(pageNumber)}
+        className="absolute right-3 top-3 rounded bg-gray-800/80 p-1 text-gray-200 opacity-0 transition-opacity hover:bg-gray-700 focus-visible:opacity-100 group-hover:opacity-100"
+        title="Rotate Page"
+        aria-label={`Rotate page ${pageNumber}`}
+      >
+        <RotateCw className="w-3 h-3" />
+      </button>
+    </div>
+  )
+}
+
+export default function PDFThumbnails({
+  pdfDoc,
+  currentPage,
+  theme,
+  rotations,
+  onPageChange,
+  onRotatePage,
+}: PDFThumbnailsProps) {
+  const [aspectRatio, setAspectRatio] = useState(1.294) // US Letter until page 1 is measured
+  const queueRef = useRef<Promise<void>>(Promise.resolve())
+
+  useEffect(() => {
+    let cancelled = false
+    pdfDoc.getPage(1).then((page) => {
+      const viewport = page.getViewport({ scale: 1 })
+      if (!cancelled) setAspectRatio(viewport.height / viewport.width)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [pdfDoc])
+
+  // Thumbnails render one at a time, when the browser is idle, so they never compete with the main page
+  const enqueueRef = useRef((task: () => Promise<void>) => {
+    queueRef.current = queueRef.current
+      .then(
+        () =>
+          new Promise<void>((resolve) =>
+            "requestIdleCallback" in window ? window.requestIdleCallback(() => resolve()) : setTimeout(resolve, 16),
+          ),
+      )
+      .then(task)
+      .catch((error) => console.error("Error rendering PDF thumbnail:", error))
+  })
+
+  return (
+    <div className="flex flex-col items-center gap-1 py-2">
+      {Array.from({ length: pdfDoc.numPages }, (_, index) => (
+        <PDFThumbnail
+          key={index + 1}
+          pdfDoc={pdfDoc}
+          pageNumber={index + 1}
+          isCurrent={index + 1 === currentPage}
+          theme={theme}
+          rotation={rotations[index + 1] ?? 0}
+          aspectRatio={aspectRatio}
+          enqueue={enqueueRef.current}
+          onSelect={onPageChange}
+          onRotate={onRotatePage}
+        />
+      ))}
+    </div>
+  )
+}
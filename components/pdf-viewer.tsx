@@ -1,121 +1,351 @@
 "use client"
 
-import { useEffect, useRef, useState } from "react"
-import { Loader2 } from "lucide-react"
+import type { Dispatch, SetStateAction } from "react"
+import { useCallback, useEffect, useRef, useState } from "react"
+import { Loader2, AlertCircle } from "lucide-react"
+import type { PDFDocumentLoadingTask, PDFDocumentProxy, PDFWorker } from "pdfjs-dist"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import PDFPage from "@/components/pdf-page"
+import PDFPasswordDialog from "@/components/pdf-password-dialog"
+import PDFReflowView from "@/components/pdf-reflow-view"
+import { getPdfWorker, loadPdfjs, pdfjsDocumentOptions } from "@/lib/pdfjs"
+import type { PageRegion } from "@/lib/pdf-images"
+import type { PageLink } from "@/lib/pdf-links"
+import { releaseRenderQueue, requestPageRender } from "@/lib/pdf-render-queue"
+import { getPageRotation, type PageRotations } from "@/lib/pdf-rotation"
+import {
+  getNextSpreadPage,
+  getPreviousSpreadPage,
+  getSpreadRange,
+  getSpreads,
+  type PageLayout,
+} from "@/lib/pdf-spreads"
+import { getZoomForMode, PDF_TO_CSS_UNITS, type ZoomMode } from "@/lib/pdf-zoom"
+import type { TextHighlight } from "@/lib/pdf-search"
+import { getPageFrameStyles } from "@/lib/pdf-theme"
+
+// Pages rendered on either side of the visible ones in continuous mode
+const RENDER_BUFFER = 2
+
+interface PageSize {
+  width: number
+  height: number
+}
 
 interface PDFViewerProps {
   file: File
   currentPage: number
   zoom: number
-  rotation: number
+  zoomMode: ZoomMode
+  // The area the pages are shown in, used by the fit modes
+  availableSize: { width: number; height: number } | null
+  rotations: PageRotations
   theme: "dark" | "sepia" | "high-contrast"
   autoScroll: boolean
   scrollSpeed: number
-  onPageChange: (page: number) => void
+  continuousScroll: boolean
+  pageLayout: PageLayout
+  coverPage: boolean
+  reflow: boolean
+  contrast: number
+  brightness: number
+  smartDarkMode: boolean
+  markingImageRegions: boolean
+  imageRegions: Record<number, PageRegion[]>
+  onImageRegionAdd: (pageNumber: number, region: PageRegion) => void
+  searchHighlights: Record<number, TextHighlight[]>
+  onPageChange: Dispatch<SetStateAction<number>>
   onTotalPagesChange: (total: number) => void
+  onDocumentLoad?: (pdfDoc: PDFDocumentProxy | null) => void
+  onZoomChange?: (zoom: number) => void
+  onExitReflow: (pageNumber: number) => void
 }
 
 export default function PDFViewer({
   file,
   currentPage,
   zoom,
-  rotation,
+  zoomMode,
+  availableSize,
+  rotations,
   theme,
   autoScroll,
   scrollSpeed,
+  continuousScroll,
+  pageLayout,
+  coverPage,
+  reflow,
+  contrast,
+  brightness,
+  smartDarkMode,
+  markingImageRegions,
+  imageRegions,
+  onImageRegionAdd,
+  searchHighlights,
   onPageChange,
   onTotalPagesChange,
+  onDocumentLoad,
+  onZoomChange,
+  onExitReflow,
 }: PDFViewerProps) {
-  const canvasRef = useRef<HTMLCanvasElement>(null)
-  const containerRef = useRef<HTMLDivElement>(null)
   const [isLoading, setIsLoading] = useState(true)
-  const [pdfDoc, setPdfDoc] = useState<any>(null)
-  const autoScrollRef = useRef<NodeJS.Timeout>()
+  const [error, setError] = useState<string>("")
+  const [pdfDoc, setPdfDoc] = useState<PDFDocumentProxy | null>(null)
+  // Each page at actual size with its current rotation, measured without rendering it
+  const [pageSizes, setPageSizes] = useState<Record<number, PageSize>>({})
+  const [visibleRange, setVisibleRange] = useState<[number, number]>([1, 1])
+  const [pendingUrl, setPendingUrl] = useState<string | null>(null)
+  const [passwordPrompt, setPasswordPrompt] = useState<{ incorrect: boolean } | null>(null)
+  const passwordRequestRef = useRef<{ submit: (password: string) => void; cancel: () => void } | null>(null)
+  const pageRefs = useRef(new Map<number, HTMLDivElement>())
+  const reportedPageRef = useRef(currentPage)
+  const autoScrollRef = useRef<NodeJS.Timeout>(undefined)
+  const pageSizeCacheRef = useRef(new Map<string, PageSize>())
 
   useEffect(() => {
+    let cancelled = false
+    let loadingTask: PDFDocumentLoadingTask | null = null
+    let loadedDoc: PDFDocumentProxy | null = null
+
     const loadPDF = async () => {
       setIsLoading(true)
+      setError("")
+      setPdfDoc(null)
+      setPageSizes({})
+      pageSizeCacheRef.current.clear()
+      setPasswordPrompt(null)
+      onDocumentLoad?.(null)
+
+      let worker: PDFWorker
       try {
-        // Dynamically import PDF.js
-        const pdfjsLib = await import("pdfjs-dist")
+        worker = await getPdfWorker()
+      } catch (error) {
+        if (cancelled) return
+        console.error("Error starting PDF worker:", error)
+        setError("The PDF engine could not start. Reload the page, or check that the app's pdf.js files are installed.")
+        setIsLoading(false)
+        return
+      }
 
-        // Set worker source to use unpkg CDN which is more reliable
-        pdfjsLib.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${pdfjsLib.version}/build/pdf.worker.min.js`
+      try {
+        // Dynamically import PDF.js
+        const pdfjsLib = await loadPdfjs()
 
         const arrayBuffer = await file.arrayBuffer()
-        const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise
+        if (cancelled) return
 
+        const task = pdfjsLib.getDocument({ data: arrayBuffer, worker, ...pdfjsDocumentOptions })
+        loadingTask = task
+        let passwordDeclined = false
+
+        // pdf.js calls back again with INCORRECT_PASSWORD until the right one is given
+        task.onPassword = (updatePassword: (password: string) => void, reason: number) => {
+          if (cancelled) return
+          passwordRequestRef.current = {
+            submit: (password) => {
+              setPasswordPrompt(null)
+              updatePassword(password)
+            },
+            cancel: () => {
+              passwordDeclined = true
+              setPasswordPrompt(null)
+              task.destroy()
+            },
+          }
+          setPasswordPrompt({ incorrect: reason === pdfjsLib.PasswordResponses.INCORRECT_PASSWORD })
+        }
+
+        const pdf = await task.promise.catch((error) => {
+          if (passwordDeclined) return null
+          throw error
+        })
+        passwordRequestRef.current = null
+        if (cancelled) return
+        if (!pdf) {
+          setError("This PDF is password protected. Open it again and enter the password to read it.")
+          setIsLoading(false)
+          return
+        }
+
+        loadedDoc = pdf
         setPdfDoc(pdf)
         onTotalPagesChange(pdf.numPages)
+        onDocumentLoad?.(pdf)
         setIsLoading(false)
       } catch (error) {
+        if (cancelled) return
         console.error("Error loading PDF:", error)
+        setError(
+          error instanceof Error && error.name === "PasswordException"
+            ? "This PDF is password protected and could not be unlocked."
+            : "Failed to load PDF. The file may be damaged or not a valid PDF.",
+        )
         setIsLoading(false)
       }
     }
 
     loadPDF()
-  }, [file, onTotalPagesChange])
 
+    return () => {
+      cancelled = true
+      passwordRequestRef.current = null
+      if (loadedDoc) releaseRenderQueue(loadedDoc)
+      loadingTask?.destroy()
+      onDocumentLoad?.(null)
+    }
+  }, [file, onTotalPagesChange, onDocumentLoad])
+
+  // Keep the requested page inside the document, e.g. after a shorter file is opened
   useEffect(() => {
-    if (!pdfDoc || !canvasRef.current) return
-
-    const renderPage = async () => {
-      const canvas = canvasRef.current!
-      const ctx = canvas.getContext("2d")!
-
-      const page = await pdfDoc.getPage(currentPage)
-      const viewport = page.getViewport({ scale: zoom, rotation })
-
-      canvas.height = viewport.height
-      canvas.width = viewport.width
-
-      // Apply theme-specific canvas styling
-      if (theme === "dark") {
-        ctx.fillStyle = "#111827" // gray-900
-        ctx.fillRect(0, 0, canvas.width, canvas.height)
-      } else if (theme === "sepia") {
-        ctx.fillStyle = "#fefbf3" // warm background
-        ctx.fillRect(0, 0, canvas.width, canvas.height)
-      } else if (theme === "high-contrast") {
-        ctx.fillStyle = "#000000"
-        ctx.fillRect(0, 0, canvas.width, canvas.height)
-      }
+    if (!pdfDoc) return
+    if (currentPage > pdfDoc.numPages) onPageChange(pdfDoc.numPages)
+    else if (currentPage < 1) onPageChange(1)
+  }, [pdfDoc, currentPage, onPageChange])
 
-      const renderContext = {
-        canvasContext: ctx,
-        viewport: viewport,
+  // Sizes are cached by page and rotation, so rotating a page only measures that page again.
+  // Page 1 drives the fit modes; every page sizes its own placeholder until it is rendered.
+  useEffect(() => {
+    if (!pdfDoc) return
+    let cancelled = false
+    const cache = pageSizeCacheRef.current
+
+    const measurePage = async (pageNumber: number) => {
+      const extraRotation = rotations[pageNumber] ?? 0
+      const key = `${pageNumber}:${extraRotation}`
+      let size = cache.get(key)
+      if (!size) {
+        const page = await pdfDoc.getPage(pageNumber)
+        const viewport = page.getViewport({ scale: PDF_TO_CSS_UNITS, rotation: getPageRotation(page, extraRotation) })
+        size = { width: viewport.width, height: viewport.height }
+        cache.set(key, size)
       }
+      return [pageNumber, size] as const
+    }
+
+    Promise.all(Array.from({ length: pdfDoc.numPages }, (_, index) => measurePage(index + 1)))
+      .then((sizes) => {
+        if (!cancelled) setPageSizes(Object.fromEntries(sizes))
+      })
+      .catch((error) => console.error("Error measuring PDF pages:", error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [pdfDoc, rotations])
 
-      await page.render(renderContext).promise
-
-      // Apply theme-specific filters
-      if (theme === "dark") {
-        ctx.globalCompositeOperation = "difference"
-        ctx.fillStyle = "white"
-        ctx.fillRect(0, 0, canvas.width, canvas.height)
-        ctx.globalCompositeOperation = "source-over"
-      } else if (theme === "sepia") {
-        // Apply sepia filter
-        const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height)
-        const data = imageData.data
-
-        for (let i = 0; i < data.length; i += 4) {
-          const r = data[i]
-          const g = data[i + 1]
-          const b = data[i + 2]
-
-          data[i] = Math.min(255, r * 0.393 + g * 0.769 + b * 0.189)
-          data[i + 1] = Math.min(255, r * 0.349 + g * 0.686 + b * 0.168)
-          data[i + 2] = Math.min(255, r * 0.272 + g * 0.534 + b * 0.131)
+  const basePageSize = pageSizes[1] ?? null
+  const effectiveZoom = getZoomForMode(zoomMode, zoom, basePageSize, availableSize, pageLayout === "spread" ? 2 : 1)
+  const scale = effectiveZoom * PDF_TO_CSS_UNITS
+
+  useEffect(() => {
+    onZoomChange?.(effectiveZoom)
+  }, [effectiveZoom, onZoomChange])
+
+  const pagesMeasured = basePageSize !== null
+
+  // Track which pages are on screen and report the most visible one as the current page
+  useEffect(() => {
+    if (!continuousScroll || reflow || !pdfDoc || !pagesMeasured) return
+
+    const visibleHeights = new Map<number, number>()
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          const pageNumber = Number((entry.target as HTMLElement).dataset.pageNumber)
+          if (entry.isIntersecting) visibleHeights.set(pageNumber, entry.intersectionRect.height)
+          else visibleHeights.delete(pageNumber)
+        }
+        if (visibleHeights.size === 0) return
+
+        const visiblePages = [...visibleHeights.keys()]
+        setVisibleRange([Math.min(...visiblePages), Math.max(...visiblePages)])
+
+        let mostVisible = visiblePages[0]
+        for (const [pageNumber, height] of visibleHeights) {
+          if (height > visibleHeights.get(mostVisible)!) mostVisible = pageNumber
+        }
+        if (mostVisible !== reportedPageRef.current) {
+          reportedPageRef.current = mostVisible
+          onPageChange(mostVisible)
         }
+      },
+      { threshold: [0, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1] },
+    )
+
+    pageRefs.current.forEach((element) => observer.observe(element))
+    return () => observer.disconnect()
+  }, [continuousScroll, reflow, pdfDoc, pagesMeasured, pageLayout, coverPage, onPageChange])
 
-        ctx.putImageData(imageData, 0, 0)
+  // Jump to the current page when entering continuous mode, changing the layout or leaving reflow
+  useEffect(() => {
+    if (!continuousScroll || reflow || !pagesMeasured) return
+    reportedPageRef.current = currentPage
+    pageRefs.current.get(currentPage)?.scrollIntoView({ block: "start" })
+  }, [continuousScroll, reflow, pagesMeasured, pageLayout, coverPage])
+
+  // Scroll to pages chosen from outside the viewer, e.g. the header chevrons
+  useEffect(() => {
+    if (!continuousScroll || currentPage === reportedPageRef.current) return
+    reportedPageRef.current = currentPage
+    pageRefs.current.get(currentPage)?.scrollIntoView({ block: "start" })
+  }, [continuousScroll, currentPage])
+
+  // Render the spreads on either side of the current one ahead of time, so flipping pages is instant
+  useEffect(() => {
+    if (continuousScroll || reflow || !pdfDoc) return
+    const totalPages = pdfDoc.numPages
+    const [firstPage, lastPage] = getSpreadRange(currentPage, totalPages, pageLayout, coverPage)
+    const neighbours = new Set<number>()
+
+    for (const anchor of [
+      getNextSpreadPage(currentPage, totalPages, pageLayout, coverPage),
+      getPreviousSpreadPage(currentPage, totalPages, pageLayout, coverPage),
+    ]) {
+      const [first, last] = getSpreadRange(anchor, totalPages, pageLayout, coverPage)
+      for (let pageNumber = first; pageNumber <= last; pageNumber++) {
+        if (pageNumber < firstPage || pageNumber > lastPage) neighbours.add(pageNumber)
       }
     }
 
-    renderPage()
-  }, [pdfDoc, currentPage, zoom, rotation, theme])
+    const requests = [...neighbours].map((pageNumber) =>
+      requestPageRender(
+        pdfDoc,
+        pageNumber,
+        {
+          scale: scale * (window.devicePixelRatio || 1),
+          rotation: rotations[pageNumber] ?? 0,
+          theme,
+          smartDarkMode,
+          imageRegions: imageRegions[pageNumber],
+        },
+        "prefetch",
+      ),
+    )
+
+    return () => requests.forEach((request) => request.cancel())
+  }, [
+    continuousScroll,
+    reflow,
+    pdfDoc,
+    currentPage,
+    pageLayout,
+    coverPage,
+    scale,
+    rotations,
+    theme,
+    smartDarkMode,
+    imageRegions,
+  ])
 
   useEffect(() => {
     if (autoScroll && pdfDoc) {
@@ -123,10 +353,10 @@ export default function PDFViewer({
 
       autoScrollRef.current = setInterval(() => {
         onPageChange((prev) => {
-          if (prev >= pdfDoc.numPages) {
+          if (getSpreadRange(prev, pdfDoc.numPages, pageLayout, coverPage)[1] >= pdfDoc.numPages) {
             return 1 // Loop back to first page
           }
-          return prev + 1
+          return getNextSpreadPage(prev, pdfDoc.numPages, pageLayout, coverPage)
         })
       }, interval)
 
@@ -136,28 +366,179 @@ export default function PDFViewer({
         }
       }
     }
-  }, [autoScroll, scrollSpeed, pdfDoc, onPageChange])
+  }, [autoScroll, scrollSpeed, pdfDoc, pageLayout, coverPage, onPageChange])
+
+  // Internal links jump straight to their page; external ones are confirmed first
+  const handleLinkClick = useCallback(
+    (link: PageLink) => {
+      if (link.pageNumber) onPageChange(link.pageNumber)
+      else if (link.url) setPendingUrl(link.url)
+    },
+    [onPageChange],
+  )
+
+  const openPendingUrl = () => {
+    if (pendingUrl) window.open(pendingUrl, "_blank", "noopener,noreferrer")
+    setPendingUrl(null)
+  }
+
+  const linkDialog = (
+    <AlertDialog open={pendingUrl !== null} onOpenChange={(open) => !open && setPendingUrl(null)}>
+      <AlertDialogContent className="bg-gray-800 border-gray-700">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="text-gray-100">Open External Link?</AlertDialogTitle>
+          <AlertDialogDescription className="text-gray-300">
+            This document links to a page outside the reader. It will open in a new tab.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="rounded-md border border-gray-600 bg-gray-900 px-3 py-2 font-mono text-sm text-blue-300 break-all">
+          {pendingUrl}
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel className="bg-gray-700 border-gray-600 text-gray-200 hover:bg-gray-600">
+            Cancel
+          </AlertDialogCancel>
+          <AlertDialogAction onClick={openPendingUrl} className="bg-blue-600 hover:bg-blue-700 text-white">
+            Open Link
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
 
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
-        <div className="flex items-center gap-2">
+        <div className="flex items-center gap-2 text-gray-200">
           <Loader2 className="w-6 h-6 animate-spin" />
-          <span>Loading PDF...</span>
+          <span>{passwordPrompt ? "Waiting for password..." : "Loading PDF..."}</span>
         </div>
+        {passwordPrompt && (
+          <PDFPasswordDialog
+            fileName={file.name}
+            incorrect={passwordPrompt.incorrect}
+            onSubmit={(password) => passwordRequestRef.current?.submit(password)}
+            onCancel={() => passwordRequestRef.current?.cancel()}
+          />
+        )}
       </div>
     )
   }
 
-  return (
-    <div ref={containerRef} className="flex justify-center">
-      <canvas
-        ref={canvasRef}
-        className="max-w-full h-auto shadow-lg rounded-lg"
-        style={{
-          filter: theme === "high-contrast" ? "contrast(1.5)" : "none",
-        }}
+  if (error) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Alert className="max-w-md bg-red-900/30 border-red-700">
+          <AlertCircle className="h-4 w-4 text-red-400" />
+          <AlertDescription className="text-red-200">{error}</AlertDescription>
+        </Alert>
+      </div>
+    )
+  }
+
+  if (!pdfDoc) return null
+
+  if (reflow) {
+    return (
+      <PDFReflowView
+        pdfDoc={pdfDoc}
+        // Fit modes size pages, not text, so reflowed text follows only a custom zoom
+        zoom={zoomMode === "custom" ? zoom : 1}
+        theme={theme}
+        contrast={contrast}
+        brightness={brightness}
+        onShowPage={onExitReflow}
       />
+    )
+  }
+
+  if (!continuousScroll) {
+    const pageNumber = Math.min(Math.max(currentPage, 1), pdfDoc.numPages)
+    const [firstPage, lastPage] = getSpreadRange(pageNumber, pdfDoc.numPages, pageLayout, coverPage)
+
+    return (
+      <div className="flex justify-center items-start gap-4">
+        {Array.from({ length: lastPage - firstPage + 1 }, (_, index) => {
+          const spreadPage = firstPage + index
+          return (
+            <PDFPage
+              key={spreadPage}
+              pdfDoc={pdfDoc}
+              pageNumber={spreadPage}
+              scale={scale}
+              rotation={rotations[spreadPage] ?? 0}
+              theme={theme}
+              contrast={contrast}
+              brightness={brightness}
+              smartDarkMode={smartDarkMode}
+              imageRegions={imageRegions[spreadPage]}
+              markingImageRegions={markingImageRegions}
+              onImageRegionAdd={onImageRegionAdd}
+              highlights={searchHighlights[spreadPage]}
+              onLinkClick={handleLinkClick}
+            />
+          )
+        })}
+        {linkDialog}
+      </div>
+    )
+  }
+
+  const firstRenderedPage = visibleRange[0] - RENDER_BUFFER
+  const lastRenderedPage = visibleRange[1] + RENDER_BUFFER
+
+  const renderPageSlot = (pageNumber: number) => {
+    const size = pageSizes[pageNumber] ?? basePageSize
+
+    return (
+      <div
+        key={pageNumber}
+        data-page-number={pageNumber}
+        ref={(element) => {
+          if (element) pageRefs.current.set(pageNumber, element)
+          else pageRefs.current.delete(pageNumber)
+        }}
+      >
+        {pageNumber >= firstRenderedPage && pageNumber <= lastRenderedPage ? (
+          <PDFPage
+            pdfDoc={pdfDoc}
+            pageNumber={pageNumber}
+            scale={scale}
+            rotation={rotations[pageNumber] ?? 0}
+            theme={theme}
+            contrast={contrast}
+            brightness={brightness}
+            smartDarkMode={smartDarkMode}
+            imageRegions={imageRegions[pageNumber]}
+            markingImageRegions={markingImageRegions}
+            onImageRegionAdd={onImageRegionAdd}
+            highlights={searchHighlights[pageNumber]}
+            onLinkClick={handleLinkClick}
+          />
+        ) : (
+          <div
+            className="box-content shadow-lg rounded-lg flex items-center justify-center text-sm opacity-60"
+            style={{
+              ...getPageFrameStyles(theme, contrast, brightness),
+              width: size && size.width * effectiveZoom,
+              height: size && size.height * effectiveZoom,
+            }}
+          >
+            {pageNumber}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-4">
+      {getSpreads(pdfDoc.numPages, pageLayout, coverPage).map(([firstPage, lastPage]) => (
+        <div key={firstPage} className="flex items-start gap-4">
+          {Array.from({ length: lastPage - firstPage + 1 }, (_, index) => renderPageSlot(firstPage + index))}
+        </div>
+      ))}
+      {linkDialog}
     </div>
   )
 }
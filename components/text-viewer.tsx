@@ -5,6 +5,7 @@ import { Loader2, AlertCircle, Type, Code } from "lucide-react"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Switch } from "@/components/ui/switch"
 import { Label } from "@/components/ui/label"
+import { getReadingSurfaceStyles, getReadingTextColor, READING_FONT_FAMILY } from "@/lib/reading-theme"
 
 interface TextViewerProps {
   file: File
@@ -52,46 +53,9 @@ export default function TextViewer({ file, zoom, theme, contrast, brightness, on
     loadTextFile()
   }, [file, onTotalPagesChange])
 
-  const getThemeStyles = () => {
-    const baseFilter = `contrast(${contrast}) brightness(${brightness})`
+  const getThemeStyles = () => getReadingSurfaceStyles(theme, contrast, brightness)
 
-    switch (theme) {
-      case "sepia":
-        return {
-          backgroundColor: "#2d2318",
-          color: "#e8d5b7",
-          border: "1px solid #4a3728",
-          filter: baseFilter,
-        }
-      case "high-contrast":
-        return {
-          backgroundColor: "#000000",
-          color: "#ffffff",
-          border: "1px solid #333333",
-          filter: `${baseFilter} saturate(1.2)`,
-        }
-      default:
-        return {
-          backgroundColor: "#1f2937",
-          color: "#f3f4f6",
-          border: "1px solid #374151",
-          filter: baseFilter,
-        }
-    }
-  }
-
-  const getTextColor = () => {
-    const textOpacity = Math.min(1, 0.8 + (contrast - 1) * 0.2)
-
-    switch (theme) {
-      case "sepia":
-        return `rgba(232, 213, 183, ${textOpacity})`
-      case "high-contrast":
-        return `rgba(255, 255, 255, ${textOpacity})`
-      default:
-        return `rgba(229, 231, 235, ${textOpacity})`
-    }
-  }
+  const getTextColor = () => getReadingTextColor(theme, contrast)
 
   const getLineNumberColor = () => {
     switch (theme) {
@@ -133,7 +97,7 @@ export default function TextViewer({ file, zoom, theme, contrast, brightness, on
             color: getTextColor(),
             fontFamily: useMonospace
               ? 'ui-monospace, SFMono-Regular, "SF Mono", Consolas, "Liberation Mono", Menlo, monospace'
-              : 'ui-sans-serif, system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+              : READING_FONT_FAMILY,
             fontSize: `${16 * zoom}px`,
             lineHeight: 1.6,
             whiteSpace: wordWrap ? "pre-wrap" : "pre",
@@ -0,0 +1,82 @@
+"use client"
+
+import { AlertCircle, AlertTriangle } from "lucide-react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { countConversionMessages, type ConversionMessage, type ConversionMessageCategory } from "@/lib/word-diagnostics"
+
+interface WordDiagnosticsDialogProps {
+  messages: ConversionMessage[]
+  fileName: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const CATEGORY_LABELS: Record<ConversionMessageCategory, string> = {
+  style: "Unrecognised style",
+  styleMap: "Style map rule",
+  element: "Ignored element",
+  image: "Image",
+  table: "Table",
+  field: "Field",
+  other: "Other",
+}
+
+export default function WordDiagnosticsDialog({ messages, fileName, open, onOpenChange }: WordDiagnosticsDialogProps) {
+  const total = countConversionMessages(messages)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-800 border-gray-700 text-gray-100 max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-gray-100">Conversion Diagnostics</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            {total === 0
+              ? `${fileName} converted without warnings.`
+              : `${total} ${total === 1 ? "issue" : "issues"} while converting ${fileName}. Parts of the document may be missing or styled differently.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {messages.length > 0 && (
+          <table className="w-full text-left text-sm">
+            <thead className="text-xs uppercase text-gray-400">
+              <tr>
+                <th className="py-2 pr-3 font-medium">Type</th>
+                <th className="py-2 pr-3 font-medium">Style</th>
+                <th className="py-2 pr-3 font-medium">Details</th>
+                <th className="py-2 text-right font-medium">Count</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {messages.map((message) => (
+                <tr key={`${message.severity}:${message.message}`} className="align-top">
+                  <td className="py-2 pr-3">
+                    <span className="flex items-center gap-1.5 whitespace-nowrap">
+                      {message.severity === "error" ? (
+                        <AlertCircle className="w-4 h-4 shrink-0 text-red-400" />
+                      ) : (
+                        <AlertTriangle className="w-4 h-4 shrink-0 text-amber-400" />
+                      )}
+                      {CATEGORY_LABELS[message.category]}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-3">
+                    {message.styleName ? (
+                      <span className="whitespace-nowrap">
+                        {message.styleName}
+                        <span className="text-gray-400"> ({message.styleType})</span>
+                      </span>
+                    ) : (
+                      <span className="text-gray-500">—</span>
+                    )}
+                  </td>
+                  <td className="py-2 pr-3 break-words text-gray-300">{message.message}</td>
+                  <td className="py-2 text-right tabular-nums text-gray-300">{message.count}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
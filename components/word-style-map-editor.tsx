@@ -0,0 +1,90 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import { BUILT_IN_STYLE_MAP, THEMED_CLASSES, type WordStyleMapSettings } from "@/lib/word-style-map"
+
+interface WordStyleMapEditorProps {
+  settings: WordStyleMapSettings
+  onChange: (settings: WordStyleMapSettings) => void
+}
+
+export default function WordStyleMapEditor({ settings, onChange }: WordStyleMapEditorProps) {
+  // Rules are applied on demand, since every change converts the document again
+  const [draft, setDraft] = useState(settings.customRules)
+
+  useEffect(() => {
+    setDraft(settings.customRules)
+  }, [settings.customRules])
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="built-in-style-map" className="text-gray-200">
+          Built-in Style Mappings
+        </Label>
+        <Switch
+          id="built-in-style-map"
+          checked={settings.useBuiltInRules}
+          onCheckedChange={(checked) => onChange({ ...settings, useBuiltInRules: checked })}
+        />
+      </div>
+
+      {settings.useBuiltInRules && (
+        <details className="text-xs text-gray-400">
+          <summary className="cursor-pointer">Show built-in rules</summary>
+          <ul className="mt-2 space-y-1 font-mono">
+            {BUILT_IN_STYLE_MAP.map((rule) => (
+              <li key={rule} className="break-all">
+                {rule}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="custom-style-map" className="text-gray-200">
+          Custom Rules
+        </Label>
+        <Textarea
+          id="custom-style-map"
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          placeholder={"p[style-name='Sidebar'] => div.docx-note > p:fresh"}
+          spellCheck={false}
+          rows={5}
+          className="bg-gray-700 border-gray-600 text-gray-100 font-mono text-xs"
+        />
+        <div className="text-xs text-gray-500">
+          One mammoth rule per line. Custom rules win over built-in ones. Themed classes:{" "}
+          {THEMED_CLASSES.join(", ")}. Rules that can't be read are listed in the document diagnostics.
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...settings, customRules: draft })}
+          disabled={draft === settings.customRules}
+          className="flex-1 bg-gray-700 border-gray-600 text-gray-200 hover:bg-gray-600"
+        >
+          Apply Rules
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setDraft(settings.customRules)}
+          disabled={draft === settings.customRules}
+          className="flex-1 bg-gray-700 border-gray-600 text-gray-200 hover:bg-gray-600"
+        >
+          Discard
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -1,8 +1,14 @@
 "use client"
 
 import { useEffect, useRef, useState } from "react"
-import { Loader2, AlertCircle } from "lucide-react"
+import { Loader2, AlertCircle, ShieldAlert } from "lucide-react"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import { getReadingSurfaceStyles } from "@/lib/reading-theme"
+import { sanitizeHtml, type RejectedContent } from "@/lib/sanitize-html"
+import { toConversionMessages, type ConversionMessage } from "@/lib/word-diagnostics"
+import { wrapTables } from "@/lib/word-tables"
+import { createImageConverter, type ImageTreatment, type WordImage } from "@/lib/word-images"
+import ImageLightbox from "@/components/image-lightbox"
 
 interface WordViewerProps {
   file: File
@@ -10,35 +16,214 @@ interface WordViewerProps {
   theme: "dark" | "sepia" | "high-contrast"
   contrast: number
   brightness: number
+  styleMap: string[]
+  imageTreatment: ImageTreatment
   onTotalPagesChange: (total: number) => void
+  onMessagesChange: (messages: ConversionMessage[]) => void
 }
 
-export default function WordViewer({ file, zoom, theme, contrast, brightness, onTotalPagesChange }: WordViewerProps) {
+interface MappedStyleColors {
+  // RGB triplets, so the same colour serves as border and tinted background
+  note: string
+  warning: string
+  quote: string
+  codeBackground: string
+  codeText: string
+}
+
+// Classes produced by the style map (see lib/word-style-map.ts)
+function getMappedStyleStyles({ note, warning, quote, codeBackground, codeText }: MappedStyleColors) {
+  return `
+    .word-content .docx-note, .word-content .docx-warning {
+      margin: 1em 0;
+      padding: 0.75em 1em;
+      border-left: 4px solid;
+      border-radius: 0.375rem;
+    }
+    .word-content .docx-note {
+      border-color: rgba(${note}, 0.8);
+      background-color: rgba(${note}, 0.12);
+    }
+    .word-content .docx-warning {
+      border-color: rgba(${warning}, 0.8);
+      background-color: rgba(${warning}, 0.12);
+    }
+    .word-content .docx-note > p:last-child, .word-content .docx-warning > p:last-child {
+      margin-bottom: 0;
+    }
+    .word-content .docx-quote {
+      margin: 1em 0;
+      padding-left: 1em;
+      border-left: 3px solid rgba(${quote}, 0.6);
+      font-style: italic;
+    }
+    .word-content .docx-code, .word-content code {
+      font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace;
+      font-size: 0.875em;
+      color: ${codeText} !important;
+      background-color: ${codeBackground};
+      border-radius: 0.25rem;
+    }
+    .word-content .docx-code {
+      margin: 1em 0;
+      padding: 0.75em 1em;
+      overflow-x: auto;
+      white-space: pre;
+      line-height: 1.5;
+    }
+    .word-content code {
+      padding: 0.1em 0.3em;
+    }
+    .word-content .docx-code code {
+      padding: 0;
+      background: none;
+    }
+  `
+}
+
+interface TableColors {
+  border: string
+  headerBackground: string
+  headerText: string
+  stripe: string
+  // The card's own background, for cells that span striped rows
+  background: string
+}
+
+function getTableStyles({ border, headerBackground, headerText, stripe, background }: TableColors) {
+  return `
+    .word-content .docx-table-wrapper {
+      margin: 1.25em 0;
+      overflow-x: auto;
+    }
+    .word-content table {
+      border-collapse: collapse;
+      min-width: 100%;
+      font-size: 0.9em;
+    }
+    .word-content th, .word-content td {
+      border: 1px solid ${border};
+      padding: 0.5em 0.75em;
+      text-align: left;
+      vertical-align: top;
+    }
+    .word-content th, .word-content thead td {
+      background-color: ${headerBackground};
+      color: ${headerText} !important;
+      font-weight: 600;
+    }
+    .word-content th p, .word-content thead td p {
+      color: ${headerText} !important;
+    }
+    .word-content tbody tr:nth-child(even) td {
+      background-color: ${stripe};
+    }
+    .word-content td[rowspan] {
+      background-color: ${background} !important;
+    }
+    .word-content td > p, .word-content th > p {
+      margin: 0;
+    }
+    .word-content td > p + p, .word-content th > p + p {
+      margin-top: 0.5em;
+    }
+  `
+}
+
+// Classes set on each image by the converter (see lib/word-images.ts)
+function getImageTreatmentStyles(treatment: ImageTreatment) {
+  const base = `
+    .word-content img {
+      max-width: 100%;
+      height: auto;
+      cursor: zoom-in;
+    }
+  `
+
+  switch (treatment) {
+    case "dim":
+      return `${base}
+        .word-content .docx-image {
+          filter: brightness(0.8) contrast(1.1);
+        }
+      `
+    case "matte":
+      return `${base}
+        .word-content .docx-image-transparent {
+          background-color: #f3f4f6;
+          padding: 0.5em;
+          border-radius: 0.375rem;
+        }
+      `
+    case "invert-line-art":
+      return `${base}
+        .word-content .docx-image-line-art {
+          filter: invert(1) hue-rotate(180deg);
+        }
+      `
+    default:
+      return base
+  }
+}
+
+export default function WordViewer({
+  file,
+  zoom,
+  theme,
+  contrast,
+  brightness,
+  styleMap,
+  imageTreatment,
+  onTotalPagesChange,
+  onMessagesChange,
+}: WordViewerProps) {
   const containerRef = useRef<HTMLDivElement>(null)
   const [htmlContent, setHtmlContent] = useState<string>("")
+  const [rejectedContent, setRejectedContent] = useState<RejectedContent[]>([])
+  const [images, setImages] = useState<WordImage[]>([])
+  const [lightboxImage, setLightboxImage] = useState<WordImage | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string>("")
 
   useEffect(() => {
+    let cancelled = false
+
     const loadWordDocument = async () => {
       setIsLoading(true)
       setError("")
+      setRejectedContent([])
+      onMessagesChange([])
 
       try {
         // Dynamically import mammoth
         const mammoth = await import("mammoth")
 
         const arrayBuffer = await file.arrayBuffer()
-        const result = await mammoth.convertToHtml({ arrayBuffer })
+        const convertedImages: WordImage[] = []
+        const result = await mammoth.convertToHtml(
+          { arrayBuffer },
+          { styleMap, convertImage: createImageConverter(mammoth, convertedImages) },
+        )
+        if (cancelled) return
 
         if (result.messages.length > 0) {
           console.warn("Conversion warnings:", result.messages)
         }
+        onMessagesChange(toConversionMessages(result.messages))
+
+        // Everything in a DOCX is untrusted, links and image sources included
+        const sanitized = sanitizeHtml(result.value)
+        if (sanitized.rejected.length > 0) {
+          console.warn("Removed unsafe content:", sanitized.rejected)
+        }
 
-        setHtmlContent(result.value)
+        setHtmlContent(wrapTables(sanitized.html))
+        setRejectedContent(sanitized.rejected)
+        setImages(convertedImages)
         onTotalPagesChange(1) // Word docs are continuous, so we set to 1
         setIsLoading(false)
       } catch (error) {
+        if (cancelled) return
         console.error("Error loading Word document:", error)
         setError("Failed to load Word document. Please try a different file.")
         setIsLoading(false)
@@ -46,35 +231,11 @@ export default function WordViewer({ file, zoom, theme, contrast, brightness, on
     }
 
     loadWordDocument()
-  }, [file, onTotalPagesChange])
 
-  const getThemeStyles = () => {
-    const baseFilter = `contrast(${contrast}) brightness(${brightness})`
-
-    switch (theme) {
-      case "sepia":
-        return {
-          backgroundColor: "#2d2318",
-          color: "#e8d5b7",
-          border: "1px solid #4a3728",
-          filter: baseFilter,
-        }
-      case "high-contrast":
-        return {
-          backgroundColor: "#000000",
-          color: "#ffffff",
-          border: "1px solid #333333",
-          filter: `${baseFilter} saturate(1.2)`,
-        }
-      default:
-        return {
-          backgroundColor: "#1f2937",
-          color: "#f3f4f6",
-          border: "1px solid #374151",
-          filter: baseFilter,
-        }
+    return () => {
+      cancelled = true
     }
-  }
+  }, [file, styleMap, onTotalPagesChange, onMessagesChange])
 
   const getContentStyles = () => {
     const textOpacity = Math.min(1, 0.7 + (contrast - 1) * 0.3)
@@ -97,6 +258,20 @@ export default function WordViewer({ file, zoom, theme, contrast, brightness, on
             color: rgba(244, 228, 193, ${headingOpacity}) !important;
             font-weight: 600;
           }
+          ${getTableStyles({
+            border: "#5c4532",
+            headerBackground: "#3d2f20",
+            headerText: "#f4e4c1",
+            stripe: "rgba(232, 213, 183, 0.05)",
+            background: "#2d2318",
+          })}
+          ${getMappedStyleStyles({
+            note: "180, 160, 110",
+            warning: "217, 119, 6",
+            quote: "232, 213, 183",
+            codeBackground: "#1f1811",
+            codeText: "#f4e4c1",
+          })}
         `
       case "high-contrast":
         return `
@@ -116,6 +291,20 @@ export default function WordViewer({ file, zoom, theme, contrast, brightness, on
             font-weight: 700;
             text-shadow: 0 0 1px rgba(255, 255, 255, 0.5);
           }
+          ${getTableStyles({
+            border: "#9ca3af",
+            headerBackground: "#1a1a1a",
+            headerText: "#ffffff",
+            stripe: "rgba(255, 255, 255, 0.08)",
+            background: "#000000",
+          })}
+          ${getMappedStyleStyles({
+            note: "0, 191, 255",
+            warning: "255, 215, 0",
+            quote: "255, 255, 255",
+            codeBackground: "#111111",
+            codeText: "#ffffff",
+          })}
         `
       default:
         return `
@@ -137,6 +326,20 @@ export default function WordViewer({ file, zoom, theme, contrast, brightness, on
             color: rgba(229, 231, 235, ${textOpacity}) !important;
             padding-left: 1.5em;
           }
+          ${getTableStyles({
+            border: "#4b5563",
+            headerBackground: "#374151",
+            headerText: "#f9fafb",
+            stripe: "rgba(255, 255, 255, 0.04)",
+            background: "#1f2937",
+          })}
+          ${getMappedStyleStyles({
+            note: "96, 165, 250",
+            warning: "251, 191, 36",
+            quote: "156, 163, 175",
+            codeBackground: "#111827",
+            codeText: "#e5e7eb",
+          })}
         `
     }
   }
@@ -163,13 +366,38 @@ export default function WordViewer({ file, zoom, theme, contrast, brightness, on
     )
   }
 
+  const rejectedCount = rejectedContent.reduce((total, item) => total + item.count, 0)
+
   return (
-    <div className="flex justify-center">
-      <style dangerouslySetInnerHTML={{ __html: getContentStyles() }} />
+    <div className="flex flex-col items-center gap-4">
+      <style dangerouslySetInnerHTML={{ __html: getContentStyles() + getImageTreatmentStyles(imageTreatment) }} />
+      {rejectedCount > 0 && (
+        <Alert className="w-full max-w-4xl bg-amber-900/30 border-amber-700">
+          <ShieldAlert className="h-4 w-4 text-amber-400" />
+          <AlertDescription className="text-amber-100">
+            <details>
+              <summary className="cursor-pointer">
+                {rejectedCount === 1
+                  ? "1 unsafe item was removed from this document."
+                  : `${rejectedCount} unsafe items were removed from this document.`}
+              </summary>
+              <ul className="mt-2 space-y-1 text-sm text-amber-200">
+                {rejectedContent.map((item) => (
+                  <li key={`${item.type}:${item.name}`}>
+                    {item.type === "element" ? "Element" : item.type === "attribute" ? "Attribute" : "Link or image URL"}{" "}
+                    <code className="rounded bg-black/30 px-1">{item.name}</code>
+                    {item.count > 1 && ` (${item.count}×)`}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          </AlertDescription>
+        </Alert>
+      )}
       <div
         ref={containerRef}
         className="w-full max-w-4xl rounded-lg shadow-lg overflow-hidden transition-all duration-300"
-        style={getThemeStyles()}
+        style={getReadingSurfaceStyles(theme, contrast, brightness)}
       >
         <div
           className="word-content p-8 min-h-[80vh] prose prose-lg max-w-none"
@@ -179,9 +407,15 @@ export default function WordViewer({ file, zoom, theme, contrast, brightness, on
             fontSize: `${16 * zoom}px`,
             lineHeight: 1.7,
           }}
+          onClick={(event) => {
+            const id = (event.target as HTMLElement).closest("img[data-image-id]")?.getAttribute("data-image-id")
+            const image = images.find((candidate) => candidate.id === id)
+            if (image) setLightboxImage(image)
+          }}
           dangerouslySetInnerHTML={{ __html: htmlContent }}
         />
       </div>
+      <ImageLightbox image={lightboxImage} onClose={() => setLightboxImage(null)} />
     </div>
   )
 }
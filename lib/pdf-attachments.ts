@@ -0,0 +1,51 @@
+import type { PDFDocumentProxy } from "pdfjs-dist"
+import { downloadBlob } from "@/lib/files"
+
+export interface PDFAttachment {
+  id: string
+  filename: string
+  description: string | null
+  content: Uint8Array
+}
+
+// Attachment types the reader can open itself, by extension
+const READABLE_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  doc: "application/msword",
+  txt: "text/plain",
+}
+
+function getExtension(filename: string) {
+  return filename.split(".").pop()?.toLowerCase() ?? ""
+}
+
+export async function getAttachments(pdfDoc: PDFDocumentProxy): Promise<PDFAttachment[]> {
+  const attachments = (await pdfDoc.getAttachments()) as Record<
+    string,
+    { filename: string; description?: string; content: Uint8Array }
+  > | null
+
+  return Object.entries(attachments ?? {})
+    .map(([id, attachment]) => ({
+      id,
+      // Names come from the PDF, so keep only the last path segment
+      filename: attachment.filename.split(/[\\/]/).pop() || id,
+      description: attachment.description || null,
+      content: attachment.content,
+    }))
+    .sort((a, b) => a.filename.localeCompare(b.filename))
+}
+
+export function isReadableAttachment(attachment: PDFAttachment) {
+  return getExtension(attachment.filename) in READABLE_TYPES
+}
+
+export function attachmentToFile(attachment: PDFAttachment) {
+  const type = READABLE_TYPES[getExtension(attachment.filename)] ?? "application/octet-stream"
+  return new File([new Uint8Array(attachment.content)], attachment.filename, { type })
+}
+
+export function downloadAttachment(attachment: PDFAttachment) {
+  downloadBlob(attachmentToFile(attachment), attachment.filename)
+}
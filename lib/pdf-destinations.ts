@@ -0,0 +1,42 @@
+import type { PDFDocumentProxy } from "pdfjs-dist"
+
+// The page reference pdf.js puts first in an explicit destination
+interface PageRef {
+  num: number
+  gen: number
+}
+
+function isPageRef(value: unknown): value is PageRef {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as PageRef).num === "number" &&
+    typeof (value as PageRef).gen === "number"
+  )
+}
+
+// Resolves a named or explicit pdf.js destination to a 1-based page number
+export async function resolveDestinationPage(
+  pdfDoc: PDFDocumentProxy,
+  dest: string | unknown[] | null | undefined,
+): Promise<number | null> {
+  if (!dest) return null
+
+  try {
+    const explicitDest = typeof dest === "string" ? await pdfDoc.getDestination(dest) : dest
+    if (!Array.isArray(explicitDest) || explicitDest.length === 0) return null
+
+    const [target] = explicitDest
+    if (typeof target === "number") {
+      // Some producers store a 0-based page index instead of a page reference
+      return Number.isInteger(target) && target >= 0 && target < pdfDoc.numPages ? target + 1 : null
+    }
+    if (isPageRef(target)) {
+      return (await pdfDoc.getPageIndex(target)) + 1
+    }
+  } catch (error) {
+    console.warn("Could not resolve PDF destination:", dest, error)
+  }
+
+  return null
+}
@@ -0,0 +1,145 @@
+import type { PDFDocumentProxy, PDFPageProxy } from "pdfjs-dist"
+import { downloadBlob } from "@/lib/files"
+import type { PageRegion } from "@/lib/pdf-images"
+
+export type FormFieldValue = string | boolean | string[]
+
+interface FormFieldBase {
+  id: string
+  name: string
+  rect: PageRegion
+  readOnly: boolean
+}
+
+// One widget of an AcroForm field. Radio groups have one widget per button, sharing a name.
+export type FormField =
+  | (FormFieldBase & { kind: "text"; value: string; multiLine: boolean; maxLength: number })
+  | (FormFieldBase & { kind: "checkbox"; value: boolean })
+  | (FormFieldBase & { kind: "radio"; value: boolean })
+  | (FormFieldBase & {
+      kind: "choice"
+      value: string[]
+      options: { value: string; label: string }[]
+      combo: boolean
+      multiSelect: boolean
+    })
+
+// The parts of a pdf.js widget annotation read here. Annotations come from the document, so every
+// field is checked before it is used.
+interface WidgetAnnotation {
+  id?: unknown
+  fieldName?: unknown
+  fieldType?: unknown
+  fieldValue?: unknown
+  buttonValue?: unknown
+  rect?: unknown
+  readOnly?: unknown
+  multiLine?: unknown
+  maxLen?: unknown
+  checkBox?: unknown
+  radioButton?: unknown
+  options?: unknown
+  combo?: unknown
+  multiSelect?: unknown
+}
+
+function isRect(value: unknown): value is PageRegion {
+  return Array.isArray(value) && value.length === 4 && value.every((n) => typeof n === "number")
+}
+
+function toChoiceOption(option: unknown) {
+  if (typeof option !== "object" || option === null) return null
+  const { exportValue, displayValue } = option as { exportValue?: unknown; displayValue?: unknown }
+  if (typeof exportValue !== "string") return null
+  return { value: exportValue, label: typeof displayValue === "string" ? displayValue : exportValue }
+}
+
+function toFormField(value: unknown): FormField | null {
+  if (typeof value !== "object" || value === null) return null
+  const annotation = value as WidgetAnnotation
+  if (typeof annotation.id !== "string" || !isRect(annotation.rect)) return null
+
+  const base: FormFieldBase = {
+    id: annotation.id,
+    name: typeof annotation.fieldName === "string" ? annotation.fieldName : "",
+    rect: annotation.rect,
+    readOnly: Boolean(annotation.readOnly),
+  }
+  const fieldValue = annotation.fieldValue
+
+  switch (annotation.fieldType) {
+    case "Tx":
+      return {
+        ...base,
+        kind: "text",
+        value: typeof fieldValue === "string" ? fieldValue : "",
+        multiLine: Boolean(annotation.multiLine),
+        maxLength: typeof annotation.maxLen === "number" ? annotation.maxLen : 0,
+      }
+    case "Btn":
+      if (annotation.checkBox) {
+        return { ...base, kind: "checkbox", value: !!fieldValue && fieldValue !== "Off" }
+      }
+      if (annotation.radioButton) {
+        return { ...base, kind: "radio", value: fieldValue === annotation.buttonValue }
+      }
+      return null // Push buttons only run scripts, which we don't execute
+    case "Ch":
+      return {
+        ...base,
+        kind: "choice",
+        value: Array.isArray(fieldValue)
+          ? fieldValue.filter((item): item is string => typeof item === "string")
+          : typeof fieldValue === "string" && fieldValue
+            ? [fieldValue]
+            : [],
+        options: (Array.isArray(annotation.options) ? annotation.options : [])
+          .map(toChoiceOption)
+          .filter((option) => option !== null),
+        combo: Boolean(annotation.combo),
+        multiSelect: Boolean(annotation.multiSelect),
+      }
+    default:
+      return null
+  }
+}
+
+// Fields on a page with the value the reader has entered, falling back to the one saved in the file
+export async function getPageFormFields(pdfDoc: PDFDocumentProxy, page: PDFPageProxy): Promise<FormField[]> {
+  const annotations = await page.getAnnotations({ intent: "display" })
+  const fields: FormField[] = []
+
+  for (const annotation of annotations) {
+    if (annotation.subtype !== "Widget" || annotation.hidden) continue
+    const field = toFormField(annotation)
+    if (!field) continue
+
+    const stored = pdfDoc.annotationStorage.getValue(field.id, { value: field.value }) as { value: FormFieldValue }
+    fields.push({ ...field, value: stored.value } as FormField)
+  }
+
+  return fields
+}
+
+// The annotation storage belongs to the document, so values survive pages being unmounted
+export async function setFormFieldValue(pdfDoc: PDFDocumentProxy, field: FormField, value: FormFieldValue) {
+  pdfDoc.annotationStorage.setValue(field.id, { value })
+  if (field.kind !== "radio" || value !== true) return
+
+  // Selecting a radio button clears the rest of its group, wherever they are in the document
+  const allFields = (await pdfDoc.getFieldObjects()) as Map<string, { id: string }[]> | null
+  for (const sibling of allFields?.get(field.name) ?? []) {
+    if (sibling.id !== field.id) pdfDoc.annotationStorage.setValue(sibling.id, { value: false })
+  }
+}
+
+export async function hasFormFields(pdfDoc: PDFDocumentProxy): Promise<boolean> {
+  const allFields = (await pdfDoc.getFieldObjects()) as Map<string, unknown[]> | null
+  return !!allFields && allFields.size > 0
+}
+
+// Writes the entered values back into the form and downloads the result
+export async function downloadFilledPdf(pdfDoc: PDFDocumentProxy, fileName: string) {
+  const data = await pdfDoc.saveDocument()
+  downloadBlob(new Blob([data], { type: "application/pdf" }), fileName.replace(/(\.pdf)?$/i, "-filled.pdf"))
+}
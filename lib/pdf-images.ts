@@ -0,0 +1,78 @@
+import type { PageViewport, PDFPageProxy } from "pdfjs-dist"
+import { loadPdfjs } from "@/lib/pdfjs"
+
+// [x1, y1, x2, y2], in canvas pixels or PDF user space depending on context
+export type PageRegion = [number, number, number, number]
+
+type Matrix = number[]
+
+// Images smaller than this (in canvas pixels) are usually bullets or icons and get recoloured with the text
+const MIN_IMAGE_SIZE = 16
+
+// Walks the page's operator list, tracking the current transform, to find where raster images are painted
+export async function findImageRegions(page: PDFPageProxy, viewport: PageViewport): Promise<PageRegion[]> {
+  const { OPS, Util } = await loadPdfjs()
+  const operatorList = await page.getOperatorList()
+  const { fnArray, argsArray } = operatorList
+
+  const regions: PageRegion[] = []
+  const stack: Matrix[] = []
+  let transform: Matrix = viewport.transform
+
+  const addUnitSquare = ([a, b, c, d, e, f]: Matrix) => {
+    const xs = [e, a + e, c + e, a + c + e]
+    const ys = [f, b + f, d + f, b + d + f]
+    const [x1, y1, x2, y2] = [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)]
+    if (x2 - x1 >= MIN_IMAGE_SIZE && y2 - y1 >= MIN_IMAGE_SIZE) {
+      regions.push([x1, y1, x2, y2])
+    }
+  }
+
+  for (let i = 0; i < fnArray.length; i++) {
+    const args = argsArray[i]
+
+    switch (fnArray[i]) {
+      case OPS.save:
+        stack.push(transform)
+        break
+      case OPS.restore:
+        transform = stack.pop() ?? transform
+        break
+      case OPS.transform:
+        transform = Util.transform(transform, args)
+        break
+      case OPS.paintFormXObjectBegin:
+        stack.push(transform)
+        if (args[0]) transform = Util.transform(transform, args[0])
+        break
+      case OPS.paintFormXObjectEnd:
+        transform = stack.pop() ?? transform
+        break
+      case OPS.paintImageXObject:
+      case OPS.paintInlineImageXObject:
+        addUnitSquare(transform)
+        break
+      case OPS.paintImageXObjectRepeat: {
+        const [, scaleX, scaleY, positions] = args
+        for (let j = 0; j < positions.length; j += 2) {
+          addUnitSquare(Util.transform(transform, [scaleX, 0, 0, scaleY, positions[j], positions[j + 1]]))
+        }
+        break
+      }
+    }
+  }
+
+  return regions
+}
+
+export function toViewportRegion(viewport: PageViewport, region: PageRegion): PageRegion {
+  const [x1, y1] = viewport.convertToViewportPoint(region[0], region[1])
+  const [x2, y2] = viewport.convertToViewportPoint(region[2], region[3])
+  return [Math.min(x1, x2), Math.min(y1, y2), Math.max(x1, x2), Math.max(y1, y2)]
+}
+
+export function toPdfRegion(viewport: PageViewport, region: PageRegion): PageRegion {
+  const [x1, y1] = viewport.convertToPdfPoint(region[0], region[1])
+  const [x2, y2] = viewport.convertToPdfPoint(region[2], region[3])
+  return [Math.min(x1, x2), Math.min(y1, y2), Math.max(x1, x2), Math.max(y1, y2)]
+}
@@ -0,0 +1,51 @@
+import type { PDFDocumentProxy, PDFPageProxy } from "pdfjs-dist"
+import type { PageRegion } from "@/lib/pdf-images"
+import { resolveDestinationPage } from "@/lib/pdf-destinations"
+
+// A clickable area on a page, in PDF user space. Exactly one of pageNumber or url is set.
+export interface PageLink {
+  rect: PageRegion
+  pageNumber?: number
+  url?: string
+}
+
+// Named actions, as found in "Go to next page" style buttons
+function resolveNamedAction(action: string, pageNumber: number, numPages: number): number | null {
+  switch (action) {
+    case "NextPage":
+      return Math.min(pageNumber + 1, numPages)
+    case "PrevPage":
+      return Math.max(pageNumber - 1, 1)
+    case "FirstPage":
+      return 1
+    case "LastPage":
+      return numPages
+    default:
+      return null
+  }
+}
+
+export async function getPageLinks(pdfDoc: PDFDocumentProxy, page: PDFPageProxy): Promise<PageLink[]> {
+  const annotations = await page.getAnnotations({ intent: "display" })
+  const links: PageLink[] = []
+
+  for (const annotation of annotations) {
+    if (annotation.subtype !== "Link" || !Array.isArray(annotation.rect)) continue
+    const rect = annotation.rect as PageRegion
+
+    // pdf.js only fills in `url` for absolute URLs with a safe protocol; `unsafeUrl` is never followed
+    if (typeof annotation.url === "string") {
+      links.push({ rect, url: annotation.url })
+      continue
+    }
+
+    const pageNumber = annotation.dest
+      ? await resolveDestinationPage(pdfDoc, annotation.dest)
+      : annotation.action
+        ? resolveNamedAction(annotation.action, page.pageNumber, pdfDoc.numPages)
+        : null
+    if (pageNumber) links.push({ rect, pageNumber })
+  }
+
+  return links
+}
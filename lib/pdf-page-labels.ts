@@ -0,0 +1,36 @@
+import type { PDFDocumentProxy } from "pdfjs-dist"
+
+// One label per page, or null when the PDF only numbers its pages 1, 2, 3...
+export async function getPageLabels(pdfDoc: PDFDocumentProxy): Promise<string[] | null> {
+  const labels = await pdfDoc.getPageLabels()
+  if (!labels || labels.length !== pdfDoc.numPages) return null
+  // Labels that just repeat the physical numbering add nothing to the counter
+  if (labels.every((label, index) => label === String(index + 1))) return null
+  return labels
+}
+
+export function getPageLabel(labels: string[] | null, pageNumber: number) {
+  return labels?.[pageNumber - 1] || String(pageNumber)
+}
+
+// Resolves what was typed into the page box. An exact label wins, so "3" in a book
+// with front matter goes to the page printed "3" rather than the third sheet.
+export function resolvePageInput(input: string, labels: string[] | null, totalPages: number): number | null {
+  const value = input.trim()
+  if (!value) return null
+
+  if (labels) {
+    const exact = labels.indexOf(value)
+    if (exact !== -1) return exact + 1
+    const lower = value.toLowerCase()
+    const caseless = labels.findIndex((label) => label.toLowerCase() === lower)
+    if (caseless !== -1) return caseless + 1
+  }
+
+  if (/^\d+$/.test(value)) {
+    const pageNumber = Number(value)
+    if (pageNumber >= 1 && pageNumber <= totalPages) return pageNumber
+  }
+
+  return null
+}
@@ -0,0 +1,88 @@
+import type { PDFDocumentProxy } from "pdfjs-dist"
+import { loadPdfjs } from "@/lib/pdfjs"
+
+export interface DocumentProperties {
+  title: string | null
+  author: string | null
+  subject: string | null
+  keywords: string | null
+  creator: string | null
+  producer: string | null
+  creationDate: Date | null
+  modificationDate: Date | null
+  pdfVersion: string | null
+  pageCount: number
+  // Page 1, in PDF points
+  pageSize: { width: number; height: number; name: string | null }
+  fileSize: number | null
+  tagged: boolean
+  linearized: boolean
+  // Every XMP property, as [name, value] pairs
+  xmp: [string, string][]
+}
+
+// Standard sizes in points, portrait
+const PAGE_SIZES: [string, number, number][] = [
+  ["A3", 842, 1191],
+  ["A4", 595, 842],
+  ["A5", 420, 595],
+  ["Letter", 612, 792],
+  ["Legal", 612, 1008],
+  ["Tabloid", 792, 1224],
+]
+
+function getPageSizeName(width: number, height: number): string | null {
+  const [short, long] = width < height ? [width, height] : [height, width]
+  const match = PAGE_SIZES.find(([, w, h]) => Math.abs(w - short) <= 2 && Math.abs(h - long) <= 2)
+  if (!match) return null
+  return width > height ? `${match[0]} landscape` : match[0]
+}
+
+function toText(value: unknown): string | null {
+  if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : null
+  return typeof value === "string" && value.trim() ? value.trim() : null
+}
+
+export async function getDocumentProperties(pdfDoc: PDFDocumentProxy): Promise<DocumentProperties> {
+  const { PDFDateString } = await loadPdfjs()
+  const [{ info, metadata }, markInfo, downloadInfo, page] = await Promise.all([
+    pdfDoc.getMetadata(),
+    pdfDoc.getMarkInfo(),
+    pdfDoc.getDownloadInfo(),
+    pdfDoc.getPage(1),
+  ])
+  const documentInfo = info as Record<string, unknown>
+
+  // XMP is usually kept more up to date than the Info dictionary, so it wins where both exist
+  const xmp: [string, string][] = []
+  if (metadata) {
+    for (const [name, value] of metadata as Iterable<[string, unknown]>) {
+      const text = toText(value)
+      if (text) xmp.push([name, text])
+    }
+  }
+  const xmpValue = (name: string) => (metadata ? toText(metadata.get(name)) : null)
+
+  const toDate = (value: unknown) => (typeof value === "string" ? PDFDateString.toDateObject(value) : null)
+  const [x1, y1, x2, y2] = page.view
+  const [width, height] = page.rotate % 180 === 0 ? [x2 - x1, y2 - y1] : [y2 - y1, x2 - x1]
+
+  const xmpTitle = xmpValue("dc:title")
+  return {
+    title: xmpTitle && xmpTitle !== "Untitled" ? xmpTitle : toText(documentInfo.Title),
+    author: xmpValue("dc:creator") ?? toText(documentInfo.Author),
+    subject: xmpValue("dc:description") ?? toText(documentInfo.Subject),
+    keywords: xmpValue("pdf:keywords") ?? toText(documentInfo.Keywords),
+    creator: xmpValue("xmp:creatortool") ?? toText(documentInfo.Creator),
+    producer: xmpValue("pdf:producer") ?? toText(documentInfo.Producer),
+    creationDate: toDate(documentInfo.CreationDate),
+    modificationDate: toDate(documentInfo.ModDate),
+    pdfVersion: toText(documentInfo.PDFFormatVersion),
+    pageCount: pdfDoc.numPages,
+    pageSize: { width, height, name: getPageSizeName(width, height) },
+    fileSize: downloadInfo.length || null,
+    tagged: Boolean(markInfo?.Marked),
+    linearized: Boolean(documentInfo.IsLinearized),
+    xmp,
+  }
+}
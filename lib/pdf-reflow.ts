@@ -0,0 +1,135 @@
+import type { PDFDocumentProxy } from "pdfjs-dist"
+
+export interface ReflowBlock {
+  type: "heading" | "paragraph"
+  // 1 to 3 for headings, by how much larger than body text they are
+  level: number
+  text: string
+  pageNumber: number
+}
+
+interface TextLine {
+  text: string
+  x: number
+  y: number
+  right: number
+  fontSize: number
+  pageNumber: number
+}
+
+// Lines further apart than this many line heights start a new paragraph
+const PARAGRAPH_GAP = 1.6
+
+// Groups a page's text items into lines, in the order pdf.js returns them
+async function getPageLines(pdfDoc: PDFDocumentProxy, pageNumber: number): Promise<TextLine[]> {
+  const page = await pdfDoc.getPage(pageNumber)
+  const textContent = await page.getTextContent()
+  const lines: TextLine[] = []
+  let current: TextLine | null = null
+
+  for (const item of textContent.items) {
+    if (!("str" in item)) continue
+    const [a, b, , , x, y] = item.transform
+    const fontSize = Math.hypot(a, b)
+
+    if (item.str.trim()) {
+      const startsNewLine = !current || Math.abs(current.y - y) > Math.max(current.fontSize, fontSize) * 0.5
+      if (startsNewLine) {
+        current = { text: "", x, y, right: x, fontSize, pageNumber }
+        lines.push(current)
+      }
+      current!.text += item.str
+      current!.right = Math.max(current!.right, x + item.width)
+      current!.fontSize = Math.max(current!.fontSize, fontSize)
+    } else if (current && item.str) {
+      current.text += " "
+    }
+
+    if (item.hasEOL) current = null
+  }
+
+  // Two-column pages: read the left column top to bottom, then the right one
+  const [left, , right] = page.view
+  const middle = (left + right) / 2
+  const rightColumn = lines.filter((line) => line.x >= middle)
+  const spanning = lines.filter((line) => line.x < middle && line.right > middle + 10)
+  if (rightColumn.length >= lines.length * 0.25 && spanning.length <= lines.length * 0.1) {
+    const byPosition = (first: TextLine, second: TextLine) => second.y - first.y
+    return [...lines.filter((line) => line.x < middle).sort(byPosition), ...rightColumn.sort(byPosition)]
+  }
+
+  return lines
+}
+
+// The font size most of the text is set in
+function getBodyFontSize(lines: TextLine[]) {
+  const characters = new Map<number, number>()
+  for (const line of lines) {
+    const size = Math.round(line.fontSize * 2) / 2
+    characters.set(size, (characters.get(size) ?? 0) + line.text.length)
+  }
+  let bodySize = 0
+  let mostCharacters = -1
+  for (const [size, count] of characters) {
+    if (count > mostCharacters) {
+      bodySize = size
+      mostCharacters = count
+    }
+  }
+  return bodySize || 12
+}
+
+function getHeadingLevel(fontSize: number, bodySize: number, text: string) {
+  const ratio = fontSize / bodySize
+  if (ratio < 1.15 || text.length > 200) return 0
+  return ratio >= 1.8 ? 1 : ratio >= 1.4 ? 2 : 3
+}
+
+function joinLines(text: string, next: string) {
+  // A word hyphenated across lines is put back together
+  if (/[a-z]-$/i.test(text) && /^[a-z]/.test(next)) return text.slice(0, -1) + next
+  return `${text} ${next}`
+}
+
+export async function extractReflowBlocks(
+  pdfDoc: PDFDocumentProxy,
+  onProgress?: (pages: number) => void,
+  isCancelled?: () => boolean,
+): Promise<ReflowBlock[] | null> {
+  const lines: TextLine[] = []
+  for (let pageNumber = 1; pageNumber <= pdfDoc.numPages; pageNumber++) {
+    if (isCancelled?.()) return null
+    lines.push(...(await getPageLines(pdfDoc, pageNumber)))
+    onProgress?.(pageNumber)
+  }
+
+  const bodySize = getBodyFontSize(lines)
+  const blocks: ReflowBlock[] = []
+  let previous: TextLine | null = null
+
+  for (const line of lines) {
+    const text = line.text.replace(/\s+/g, " ").trim()
+    // Running page numbers carry no content once the pages are gone
+    if (!text || /^\d+$/.test(text)) continue
+
+    const level = getHeadingLevel(line.fontSize, bodySize, text)
+    const block = blocks[blocks.length - 1]
+    const continuesBlock =
+      block &&
+      previous &&
+      block.pageNumber === line.pageNumber &&
+      (block.type === "heading") === (level > 0) &&
+      (level === 0 || block.level === level) &&
+      previous.y - line.y > 0 &&
+      previous.y - line.y <= Math.max(previous.fontSize, line.fontSize) * PARAGRAPH_GAP
+
+    if (continuesBlock) {
+      block.text = joinLines(block.text, text)
+    } else {
+      blocks.push({ type: level > 0 ? "heading" : "paragraph", level, text, pageNumber: line.pageNumber })
+    }
+    previous = line
+  }
+
+  return blocks
+}
@@ -0,0 +1,233 @@
+import type { PDFDocumentProxy, RenderTask } from "pdfjs-dist"
+import { loadPdfjs } from "@/lib/pdfjs"
+import { findImageRegions, toViewportRegion, type PageRegion } from "@/lib/pdf-images"
+import { getPageRotation } from "@/lib/pdf-rotation"
+import { paintPageBackground, type PDFTheme } from "@/lib/pdf-theme"
+import { themePageBitmap } from "@/lib/pdf-theme-worker"
+
+export interface PageRenderOptions {
+  // Canvas pixels per PDF unit, device pixel ratio included
+  scale: number
+  rotation: number
+  theme: PDFTheme
+  smartDarkMode: boolean
+  imageRegions?: PageRegion[]
+}
+
+export type RenderPriority = "visible" | "prefetch"
+
+export interface PageRenderRequest {
+  promise: Promise<ImageBitmap>
+  cancel: () => void
+}
+
+interface RenderJob {
+  key: string
+  pageNumber: number
+  options: PageRenderOptions
+  priority: RenderPriority
+  waiters: number
+  cancelled: boolean
+  renderTask: RenderTask | null
+  promise: Promise<ImageBitmap>
+  resolve: (bitmap: ImageBitmap) => void
+  reject: (error: unknown) => void
+}
+
+// Rendered pages kept for instant page flips. Each bitmap costs width × height × 4 bytes.
+const MEMORY_BUDGET = 256 * 1024 * 1024
+
+function createCancelledError() {
+  const error = new Error("Page render was superseded")
+  error.name = "RenderingCancelledException"
+  return error
+}
+
+function getCacheKey(pageNumber: number, { scale, rotation, theme, smartDarkMode, imageRegions }: PageRenderOptions) {
+  const regions = smartDarkMode && imageRegions?.length ? JSON.stringify(imageRegions) : ""
+  return `${pageNumber}:${scale.toFixed(4)}:${rotation}:${theme}:${smartDarkMode ? "smart" : "classic"}:${regions}`
+}
+
+async function renderPage(pdfDoc: PDFDocumentProxy, job: RenderJob): Promise<ImageBitmap> {
+  const { scale, rotation, theme, smartDarkMode, imageRegions } = job.options
+  const pdfjsLib = await loadPdfjs()
+  const page = await pdfDoc.getPage(job.pageNumber)
+  if (job.cancelled) throw createCancelledError()
+
+  const viewport = page.getViewport({ scale, rotation: getPageRotation(page, rotation) })
+  const canvas = document.createElement("canvas")
+  canvas.width = viewport.width
+  canvas.height = viewport.height
+  const ctx = canvas.getContext("2d")!
+
+  paintPageBackground(ctx, theme)
+  job.renderTask = page.render({
+    canvas: null,
+    canvasContext: ctx,
+    viewport,
+    // Form widgets are drawn as HTML inputs instead
+    annotationMode: pdfjsLib.AnnotationMode.ENABLE_FORMS,
+  })
+  await job.renderTask.promise
+  job.renderTask = null
+
+  let preservedRegions: PageRegion[] | null = null
+  if (smartDarkMode) {
+    const detectedRegions = await findImageRegions(page, viewport)
+    const markedRegions = (imageRegions ?? []).map((region) => toViewportRegion(viewport, region))
+    preservedRegions = [...detectedRegions, ...markedRegions]
+  }
+  if (job.cancelled) throw createCancelledError()
+
+  // The recolouring happens in the theme worker, off the main thread
+  const rendered = await createImageBitmap(canvas)
+  canvas.width = canvas.height = 0
+  return themePageBitmap(rendered, theme, preservedRegions)
+}
+
+// One queue per document: renders one page at a time, visible pages first, and keeps an LRU bitmap cache
+function createRenderQueue(pdfDoc: PDFDocumentProxy) {
+  const cache = new Map<string, ImageBitmap>()
+  const jobs = new Map<string, RenderJob>()
+  const pending: RenderJob[] = []
+  let usedBytes = 0
+  let running = false
+  let released = false
+
+  const store = (key: string, bitmap: ImageBitmap) => {
+    cache.set(key, bitmap)
+    usedBytes += bitmap.width * bitmap.height * 4
+
+    // Map iteration order is insertion order, so the first entries are the least recently used
+    for (const [oldKey, oldBitmap] of cache) {
+      if (usedBytes <= MEMORY_BUDGET || oldKey === key) break
+      cache.delete(oldKey)
+      usedBytes -= oldBitmap.width * oldBitmap.height * 4
+      oldBitmap.close()
+    }
+  }
+
+  const runNext = async () => {
+    if (running) return
+    const index = pending.findIndex((job) => job.priority === "visible")
+    const [job] = pending.splice(index === -1 ? 0 : index, 1)
+    if (!job) return
+
+    running = true
+    try {
+      const bitmap = await renderPage(pdfDoc, job)
+      if (released) {
+        bitmap.close()
+        throw createCancelledError()
+      }
+      store(job.key, bitmap)
+      job.resolve(bitmap)
+    } catch (error) {
+      job.reject(job.cancelled ? createCancelledError() : error)
+    } finally {
+      if (jobs.get(job.key) === job) jobs.delete(job.key)
+      running = false
+      runNext()
+    }
+  }
+
+  const cancelJob = (job: RenderJob) => {
+    job.cancelled = true
+    job.renderTask?.cancel()
+    jobs.delete(job.key)
+    const index = pending.indexOf(job)
+    if (index !== -1) {
+      pending.splice(index, 1)
+      job.reject(createCancelledError())
+    }
+  }
+
+  const request = (pageNumber: number, options: PageRenderOptions, priority: RenderPriority): PageRenderRequest => {
+    const key = getCacheKey(pageNumber, options)
+
+    const cached = cache.get(key)
+    if (cached) {
+      cache.delete(key)
+      cache.set(key, cached)
+      return { promise: Promise.resolve(cached), cancel: () => {} }
+    }
+
+    let job = jobs.get(key)
+    if (!job) {
+      let resolve!: (bitmap: ImageBitmap) => void
+      let reject!: (error: unknown) => void
+      const promise = new Promise<ImageBitmap>((res, rej) => {
+        resolve = res
+        reject = rej
+      })
+      // Nobody may be waiting on a prefetch when it fails
+      promise.catch(() => {})
+
+      job = {
+        key,
+        pageNumber,
+        options,
+        priority,
+        waiters: 0,
+        cancelled: false,
+        renderTask: null,
+        promise,
+        resolve,
+        reject,
+      }
+      jobs.set(key, job)
+      pending.push(job)
+    } else if (priority === "visible") {
+      job.priority = "visible"
+    }
+
+    const activeJob = job
+    activeJob.waiters++
+    queueMicrotask(runNext)
+
+    let released = false
+    return {
+      promise: activeJob.promise,
+      // A render nobody is waiting for any more is dropped, or stopped if it has started
+      cancel: () => {
+        if (released) return
+        released = true
+        activeJob.waiters--
+        if (activeJob.waiters === 0) cancelJob(activeJob)
+      },
+    }
+  }
+
+  // Frees the document's bitmaps straight away instead of leaving them to the garbage collector
+  const release = () => {
+    released = true
+    for (const job of [...jobs.values()]) cancelJob(job)
+    for (const bitmap of cache.values()) bitmap.close()
+    cache.clear()
+    usedBytes = 0
+  }
+
+  return { request, release }
+}
+
+const queues = new WeakMap<PDFDocumentProxy, ReturnType<typeof createRenderQueue>>()
+
+export function requestPageRender(
+  pdfDoc: PDFDocumentProxy,
+  pageNumber: number,
+  options: PageRenderOptions,
+  priority: RenderPriority = "visible",
+): PageRenderRequest {
+  let queue = queues.get(pdfDoc)
+  if (!queue) {
+    queue = createRenderQueue(pdfDoc)
+    queues.set(pdfDoc, queue)
+  }
+  return queue.request(pageNumber, options, priority)
+}
+
+// Call before the document is destroyed: cancels its pending renders and closes its cached bitmaps
+export function releaseRenderQueue(pdfDoc: PDFDocumentProxy) {
+  queues.get(pdfDoc)?.release()
+  queues.delete(pdfDoc)
+}
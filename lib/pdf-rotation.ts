@@ -0,0 +1,90 @@
+import type { PDFDocumentProxy, PDFPageProxy } from "pdfjs-dist"
+import { downloadBlob } from "@/lib/files"
+
+// Degrees the reader turns each page on top of the rotation stored in the PDF, by page number
+export type PageRotations = Record<number, number>
+
+const STORAGE_PREFIX = "dark-document-reader:rotations:"
+
+// Viewports take an absolute rotation, which would otherwise drop the page's own /Rotate
+export function getPageRotation(page: PDFPageProxy, rotation: number) {
+  return (page.rotate + rotation) % 360
+}
+
+export function rotatePages(rotations: PageRotations, pageNumbers: number[], degrees = 90): PageRotations {
+  const next = { ...rotations }
+  for (const pageNumber of pageNumbers) {
+    const rotation = ((next[pageNumber] ?? 0) + degrees + 360) % 360
+    if (rotation) next[pageNumber] = rotation
+    else delete next[pageNumber]
+  }
+  return next
+}
+
+// Rotations are remembered per document, identified by the PDF's own fingerprint
+function getStorageKey(pdfDoc: PDFDocumentProxy) {
+  const fingerprint = pdfDoc.fingerprints[0]
+  return fingerprint ? STORAGE_PREFIX + fingerprint : null
+}
+
+export function loadSavedRotations(pdfDoc: PDFDocumentProxy): PageRotations {
+  const key = getStorageKey(pdfDoc)
+  if (!key) return {}
+  try {
+    const saved = JSON.parse(localStorage.getItem(key) ?? "{}") as Record<string, unknown>
+    const rotations: PageRotations = {}
+    for (const [page, rotation] of Object.entries(saved)) {
+      const pageNumber = Number(page)
+      if (pageNumber >= 1 && pageNumber <= pdfDoc.numPages && [90, 180, 270].includes(rotation as number)) {
+        rotations[pageNumber] = rotation as number
+      }
+    }
+    return rotations
+  } catch {
+    return {}
+  }
+}
+
+export function saveRotations(pdfDoc: PDFDocumentProxy, rotations: PageRotations) {
+  const key = getStorageKey(pdfDoc)
+  if (!key) return
+  try {
+    if (Object.keys(rotations).length === 0) localStorage.removeItem(key)
+    else localStorage.setItem(key, JSON.stringify(rotations))
+  } catch (error) {
+    console.error("Error saving page rotations:", error)
+  }
+}
+
+// pdf.js writes a copy of the open document, already decrypted for reading but encrypted again with the
+// same keys, with every object at the top level. pdf-lib then only sets /Rotate on the turned pages:
+// it keeps the encrypted strings and streams as they are, along with the trailer's /Encrypt and /ID.
+export async function exportRotatedPdf(
+  pdfDoc: PDFDocumentProxy,
+  rotations: PageRotations,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const data = await pdfDoc.extractPages([{ document: null }])
+  const pageNumbers = Object.keys(rotations).map(Number)
+  if (pageNumbers.length === 0) return data.slice()
+
+  const { PDFDocument, degrees } = await import("pdf-lib")
+  // Rewriting the metadata would add unencrypted strings to an encrypted file
+  const copy = await PDFDocument.load(data, { ignoreEncryption: true, updateMetadata: false })
+  const pages = copy.getPages()
+  if (pages.length !== pdfDoc.numPages) {
+    throw new Error(`The copy has ${pages.length} pages instead of ${pdfDoc.numPages}`)
+  }
+
+  for (const pageNumber of pageNumbers) {
+    const page = await pdfDoc.getPage(pageNumber)
+    pages[pageNumber - 1].setRotation(degrees(getPageRotation(page, rotations[pageNumber])))
+  }
+
+  const result = await copy.save({ useObjectStreams: false, updateFieldAppearances: false })
+  return result.slice()
+}
+
+export async function downloadRotatedPdf(pdfDoc: PDFDocumentProxy, rotations: PageRotations, fileName: string) {
+  const data = await exportRotatedPdf(pdfDoc, rotations)
+  downloadBlob(new Blob([data], { type: "application/pdf" }), fileName.replace(/(\.pdf)?$/i, "-rotated.pdf"))
+}
@@ -0,0 +1,112 @@
+import type { PDFDocumentProxy } from "pdfjs-dist"
+
+// Text of one page, with the position of every pdf.js text item inside it.
+// Item indexes match the text layer's textDivs, so hits can be mapped back onto the page.
+export interface PageTextIndex {
+  text: string
+  itemStarts: number[]
+  itemLengths: number[]
+}
+
+export interface SearchOptions {
+  caseSensitive: boolean
+  wholeWord: boolean
+}
+
+export interface SearchMatch {
+  pageNumber: number
+  start: number
+  end: number
+}
+
+export interface TextHighlight {
+  itemIndex: number
+  start: number
+  end: number
+  selected: boolean
+}
+
+export async function buildSearchIndex(
+  pdfDoc: PDFDocumentProxy,
+  onProgress?: (indexedPages: number) => void,
+  isCancelled?: () => boolean,
+): Promise<PageTextIndex[] | null> {
+  const index: PageTextIndex[] = []
+
+  for (let pageNumber = 1; pageNumber <= pdfDoc.numPages; pageNumber++) {
+    if (isCancelled?.()) return null
+
+    const page = await pdfDoc.getPage(pageNumber)
+    const textContent = await page.getTextContent()
+    const pageIndex: PageTextIndex = { text: "", itemStarts: [], itemLengths: [] }
+
+    for (const item of textContent.items) {
+      if (!("str" in item)) continue
+      pageIndex.itemStarts.push(pageIndex.text.length)
+      pageIndex.itemLengths.push(item.str.length)
+      pageIndex.text += item.str
+      // Line breaks become spaces so phrases that wrap onto the next line still match
+      if (item.hasEOL) pageIndex.text += " "
+    }
+
+    index.push(pageIndex)
+    onProgress?.(pageNumber)
+  }
+
+  return index
+}
+
+function buildQueryPattern(query: string, { caseSensitive, wholeWord }: SearchOptions) {
+  const escaped = query
+    .trim()
+    .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    .replace(/\s+/g, "\\s+")
+  const source = wholeWord ? `(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])` : escaped
+  return new RegExp(source, caseSensitive ? "gu" : "giu")
+}
+
+export function findMatches(index: PageTextIndex[], query: string, options: SearchOptions): SearchMatch[] {
+  if (!query.trim()) return []
+
+  const pattern = buildQueryPattern(query, options)
+  const matches: SearchMatch[] = []
+
+  index.forEach((page, pageIndex) => {
+    for (const match of page.text.matchAll(pattern)) {
+      if (match[0].length === 0) continue
+      matches.push({ pageNumber: pageIndex + 1, start: match.index, end: match.index + match[0].length })
+    }
+  })
+
+  return matches
+}
+
+// Splits each match into per-item ranges that the text layer can wrap in highlight spans
+export function getPageHighlights(
+  index: PageTextIndex[],
+  matches: SearchMatch[],
+  selectedMatch: number,
+): Record<number, TextHighlight[]> {
+  const highlights: Record<number, TextHighlight[]> = {}
+
+  matches.forEach((match, matchIndex) => {
+    const page = index[match.pageNumber - 1]
+    const pageHighlights = (highlights[match.pageNumber] ??= [])
+
+    page.itemStarts.forEach((itemStart, itemIndex) => {
+      const itemEnd = itemStart + page.itemLengths[itemIndex]
+      const start = Math.max(match.start, itemStart)
+      const end = Math.min(match.end, itemEnd)
+      if (start < end) {
+        pageHighlights.push({
+          itemIndex,
+          start: start - itemStart,
+          end: end - itemStart,
+          selected: matchIndex === selectedMatch,
+        })
+      }
+    })
+  })
+
+  return highlights
+}
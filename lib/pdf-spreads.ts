@@ -0,0 +1,34 @@
+export type PageLayout = "single" | "spread"
+
+// The pages shown together with `pageNumber`, as [first, last]. With a cover, page 1 stands alone
+// and the spreads start on even pages, like an open book.
+export function getSpreadRange(
+  pageNumber: number,
+  totalPages: number,
+  layout: PageLayout,
+  coverPage: boolean,
+): [number, number] {
+  if (layout === "single" || (coverPage && pageNumber <= 1)) return [pageNumber, pageNumber]
+
+  const first = coverPage ? pageNumber - (pageNumber % 2) : pageNumber - ((pageNumber + 1) % 2)
+  return [first, Math.min(first + 1, totalPages)]
+}
+
+export function getSpreads(totalPages: number, layout: PageLayout, coverPage: boolean): [number, number][] {
+  const spreads: [number, number][] = []
+  for (let pageNumber = 1; pageNumber <= totalPages; ) {
+    const spread = getSpreadRange(pageNumber, totalPages, layout, coverPage)
+    spreads.push(spread)
+    pageNumber = spread[1] + 1
+  }
+  return spreads
+}
+
+export function getNextSpreadPage(pageNumber: number, totalPages: number, layout: PageLayout, coverPage: boolean) {
+  return Math.min(getSpreadRange(pageNumber, totalPages, layout, coverPage)[1] + 1, totalPages)
+}
+
+export function getPreviousSpreadPage(pageNumber: number, totalPages: number, layout: PageLayout, coverPage: boolean) {
+  const [first] = getSpreadRange(pageNumber, totalPages, layout, coverPage)
+  return first <= 1 ? 1 : getSpreadRange(first - 1, totalPages, layout, coverPage)[0]
+}
@@ -0,0 +1,98 @@
+import type { PageRegion } from "@/lib/pdf-images"
+import { applyPageTheme, applySmartPageTheme, type PDFTheme } from "@/lib/pdf-theme"
+import type { ThemeWorkerRequest, ThemeWorkerResponse } from "@/lib/pdf-theme.worker"
+
+interface PendingRequest {
+  // The worker is handed a copy, so the original is still there to theme on the main thread if it fails.
+  // It is closed as soon as the worker answers.
+  bitmap: ImageBitmap
+  theme: PDFTheme
+  preservedRegions: PageRegion[] | null
+  resolve: (bitmap: ImageBitmap) => void
+  reject: (error: Error) => void
+}
+
+let worker: Worker | null = null
+// Set after the worker fails once, e.g. because its script could not load; it is not started again
+let workerUnavailable = false
+let nextRequestId = 0
+const pendingRequests = new Map<number, PendingRequest>()
+
+function themeRequestOnMainThread({ bitmap, theme, preservedRegions, resolve, reject }: PendingRequest) {
+  themeOnMainThread(bitmap, theme, preservedRegions).then(resolve, reject)
+}
+
+// After the first failure every page, including those the worker still had, is themed on the main thread
+function disableThemeWorker(reason: string) {
+  console.error("PDF theme worker failed, theming pages on the main thread instead:", reason)
+  workerUnavailable = true
+  worker?.terminate()
+  worker = null
+
+  for (const request of pendingRequests.values()) themeRequestOnMainThread(request)
+  pendingRequests.clear()
+}
+
+function getThemeWorker(): Worker | null {
+  if (workerUnavailable || typeof Worker === "undefined" || typeof OffscreenCanvas === "undefined") return null
+  if (worker) return worker
+
+  worker = new Worker(new URL("./pdf-theme.worker.ts", import.meta.url), { type: "module" })
+  worker.addEventListener("message", (event: MessageEvent<ThemeWorkerResponse>) => {
+    const response = event.data
+    const request = pendingRequests.get(response.id)
+    if (!request) return
+    pendingRequests.delete(response.id)
+
+    if ("bitmap" in response) {
+      request.bitmap.close()
+      request.resolve(response.bitmap)
+    } else {
+      themeRequestOnMainThread(request)
+      disableThemeWorker(response.error)
+    }
+  })
+  worker.addEventListener("error", (event) => disableThemeWorker(event.message))
+
+  return worker
+}
+
+// Used where workers or OffscreenCanvas are missing, or once the worker has failed
+function themeOnMainThread(bitmap: ImageBitmap, theme: PDFTheme, preservedRegions: PageRegion[] | null) {
+  const canvas = document.createElement("canvas")
+  canvas.width = bitmap.width
+  canvas.height = bitmap.height
+  const ctx = canvas.getContext("2d", { willReadFrequently: true })!
+  ctx.drawImage(bitmap, 0, 0)
+  bitmap.close()
+
+  if (preservedRegions) applySmartPageTheme(ctx, theme, preservedRegions)
+  else applyPageTheme(ctx, theme)
+
+  return createImageBitmap(canvas)
+}
+
+// Applies the reading theme to a rendered page. The bitmap is handed over and must not be used afterwards.
+export async function themePageBitmap(
+  bitmap: ImageBitmap,
+  theme: PDFTheme,
+  preservedRegions: PageRegion[] | null,
+): Promise<ImageBitmap> {
+  const themeWorker = getThemeWorker()
+  if (!themeWorker) return themeOnMainThread(bitmap, theme, preservedRegions)
+
+  // Transferring moves the copy's pixels to the worker instead of serializing another one
+  const copy = await createImageBitmap(bitmap)
+  if (worker !== themeWorker) {
+    // The worker failed while the copy was being made
+    copy.close()
+    return themeOnMainThread(bitmap, theme, preservedRegions)
+  }
+
+  const id = nextRequestId++
+  return new Promise((resolve, reject) => {
+    pendingRequests.set(id, { bitmap, theme, preservedRegions, resolve, reject })
+    const request: ThemeWorkerRequest = { id, bitmap: copy, theme, preservedRegions }
+    themeWorker.postMessage(request, [copy])
+  })
+}
@@ -0,0 +1,119 @@
+import type { PageRegion } from "@/lib/pdf-images"
+
+export type PDFTheme = "dark" | "sepia" | "high-contrast"
+
+// The theme functions run on page canvases and, inside the theme worker, on offscreen ones
+type ThemeContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+
+// Fills the canvas before pdf.js paints the page
+export function paintPageBackground(ctx: ThemeContext, theme: PDFTheme) {
+  const { width, height } = ctx.canvas
+
+  if (theme === "dark") {
+    ctx.fillStyle = "#111827" // gray-900
+  } else if (theme === "sepia") {
+    ctx.fillStyle = "#fefbf3" // warm background
+  } else {
+    ctx.fillStyle = "#000000"
+  }
+  ctx.fillRect(0, 0, width, height)
+}
+
+// Recolours a rendered page for the reading theme
+export function applyPageTheme(ctx: ThemeContext, theme: PDFTheme) {
+  const { width, height } = ctx.canvas
+
+  if (theme === "dark") {
+    ctx.globalCompositeOperation = "difference"
+    ctx.fillStyle = "white"
+    ctx.fillRect(0, 0, width, height)
+    ctx.globalCompositeOperation = "source-over"
+  } else if (theme === "sepia") {
+    // CSS sepia() uses the same matrix as the loop below, without touching pixels from script.
+    // Older Safari has no canvas filters and falls back to the loop
+    if (typeof (ctx as { filter?: unknown }).filter === "string") {
+      ctx.filter = "sepia(1)"
+      ctx.globalCompositeOperation = "copy"
+      ctx.drawImage(ctx.canvas, 0, 0)
+      ctx.filter = "none"
+      ctx.globalCompositeOperation = "source-over"
+      return
+    }
+
+    const imageData = ctx.getImageData(0, 0, width, height)
+    const data = imageData.data
+
+    for (let i = 0; i < data.length; i += 4) {
+      const r = data[i]
+      const g = data[i + 1]
+      const b = data[i + 2]
+
+      data[i] = Math.min(255, r * 0.393 + g * 0.769 + b * 0.189)
+      data[i + 1] = Math.min(255, r * 0.349 + g * 0.686 + b * 0.168)
+      data[i + 2] = Math.min(255, r * 0.272 + g * 0.534 + b * 0.131)
+    }
+
+    ctx.putImageData(imageData, 0, 0)
+  }
+}
+
+// Paper and ink colours that smart mode maps page content onto
+const SMART_PALETTES: Record<PDFTheme, { background: number[]; foreground: number[] }> = {
+  dark: { background: [17, 24, 39], foreground: [229, 231, 235] },
+  sepia: { background: [251, 240, 217], foreground: [95, 75, 50] },
+  "high-contrast": { background: [0, 0, 0], foreground: [255, 255, 255] },
+}
+
+// Maps text and vector fills onto the theme palette by luminance, then puts
+// the original pixels back inside the regions that hold raster images
+export function applySmartPageTheme(ctx: ThemeContext, theme: PDFTheme, preservedRegions: PageRegion[]) {
+  const { width, height } = ctx.canvas
+  const original = ctx.getImageData(0, 0, width, height)
+
+  const { background, foreground } = SMART_PALETTES[theme]
+  const imageData = new ImageData(new Uint8ClampedArray(original.data), width, height)
+  const data = imageData.data
+
+  for (let i = 0; i < data.length; i += 4) {
+    const luminance = (data[i] * 0.2126 + data[i + 1] * 0.7152 + data[i + 2] * 0.0722) / 255
+
+    data[i] = foreground[0] + (background[0] - foreground[0]) * luminance
+    data[i + 1] = foreground[1] + (background[1] - foreground[1]) * luminance
+    data[i + 2] = foreground[2] + (background[2] - foreground[2]) * luminance
+  }
+
+  ctx.putImageData(imageData, 0, 0)
+
+  for (const [x1, y1, x2, y2] of preservedRegions) {
+    const x = Math.max(0, Math.floor(x1))
+    const y = Math.max(0, Math.floor(y1))
+    const w = Math.min(width, Math.ceil(x2)) - x
+    const h = Math.min(height, Math.ceil(y2)) - y
+    if (w > 0 && h > 0) ctx.putImageData(original, 0, 0, x, y, w, h)
+  }
+}
+
+export function getPageFrameStyles(theme: PDFTheme, contrast: number, brightness: number) {
+  const baseFilter = `contrast(${contrast}) brightness(${brightness})`
+
+  switch (theme) {
+    case "sepia":
+      return {
+        filter: baseFilter,
+        backgroundColor: "#2d2318",
+        border: "2px solid #4a3728",
+      }
+    case "high-contrast":
+      return {
+        filter: `${baseFilter} contrast(1.5)`,
+        backgroundColor: "#000000",
+        border: "2px solid #333333",
+      }
+    default:
+      return {
+        filter: baseFilter,
+        backgroundColor: "#1f2937",
+        border: "2px solid #374151",
+      }
+  }
+}
@@ -0,0 +1,32 @@
+import type { PageRegion } from "@/lib/pdf-images"
+import { applyPageTheme, applySmartPageTheme, type PDFTheme } from "@/lib/pdf-theme"
+
+export interface ThemeWorkerRequest {
+  id: number
+  bitmap: ImageBitmap
+  theme: PDFTheme
+  // Set in smart dark mode: the regions to keep in true colour
+  preservedRegions: PageRegion[] | null
+}
+
+export type ThemeWorkerResponse = { id: number; bitmap: ImageBitmap } | { id: number; error: string }
+
+// Recolours rendered pages on an OffscreenCanvas so the per-pixel work never blocks the UI
+addEventListener("message", (event: MessageEvent<ThemeWorkerRequest>) => {
+  const { id, bitmap, theme, preservedRegions } = event.data
+
+  try {
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height)
+    const ctx = canvas.getContext("2d", { willReadFrequently: true })!
+    ctx.drawImage(bitmap, 0, 0)
+    bitmap.close()
+
+    if (preservedRegions) applySmartPageTheme(ctx, theme, preservedRegions)
+    else applyPageTheme(ctx, theme)
+
+    const result = canvas.transferToImageBitmap()
+    postMessage({ id, bitmap: result } satisfies ThemeWorkerResponse, { transfer: [result] })
+  } catch (error) {
+    postMessage({ id, error: String(error) } satisfies ThemeWorkerResponse)
+  }
+})
@@ -0,0 +1,39 @@
+export type ZoomMode = "fit-width" | "fit-page" | "actual" | "custom"
+
+export const MIN_ZOOM = 0.25
+export const MAX_ZOOM = 5
+export const ZOOM_STEP = 0.25
+
+// PDF points are 1/72 inch and CSS pixels 1/96 inch, so 100% shows pages at their printed size
+export const PDF_TO_CSS_UNITS = 96 / 72
+
+// Padding around the pages and the gap between the pages of a spread, in CSS pixels
+const PAGE_PADDING = 16
+const PAGE_GAP = 16
+// The themed frame's border on each side of a page, drawn outside its content box
+const PAGE_BORDER = 2
+
+export function clampZoom(zoom: number) {
+  return Math.min(Math.max(zoom, MIN_ZOOM), MAX_ZOOM)
+}
+
+// The zoom for a mode, where 1 is actual size. `pageSize` is the page at 100%, `available` the visible
+// area around the pages, and `pagesAcross` how many pages sit side by side.
+export function getZoomForMode(
+  mode: ZoomMode,
+  customZoom: number,
+  pageSize: { width: number; height: number } | null,
+  available: { width: number; height: number } | null,
+  pagesAcross: number,
+): number {
+  if (mode === "actual") return 1
+  if (mode === "custom" || !pageSize || !available) return clampZoom(customZoom)
+
+  const widthZoom =
+    (available.width - PAGE_PADDING * 2 - PAGE_GAP * (pagesAcross - 1) - PAGE_BORDER * 2 * pagesAcross) /
+    (pageSize.width * pagesAcross)
+  if (mode === "fit-width") return clampZoom(widthZoom)
+
+  const heightZoom = (available.height - PAGE_PADDING * 2 - PAGE_BORDER * 2) / pageSize.height
+  return clampZoom(Math.min(widthZoom, heightZoom))
+}
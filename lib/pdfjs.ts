@@ -0,0 +1,38 @@
+import type { PDFWorker } from "pdfjs-dist"
+
+// Served from public/pdfjs, populated by scripts/copy-pdfjs-assets.mjs
+const PDFJS_ASSETS_PATH = "/pdfjs"
+
+let workerPromise: Promise<PDFWorker> | null = null
+
+export async function loadPdfjs() {
+  const pdfjsLib = await import("pdfjs-dist")
+  pdfjsLib.GlobalWorkerOptions.workerSrc = `${PDFJS_ASSETS_PATH}/pdf.worker.min.mjs`
+  return pdfjsLib
+}
+
+// Starts the shared pdf.js worker once and rejects if it cannot run,
+// so viewers can report a broken worker instead of hanging on getDocument.
+export function getPdfWorker() {
+  if (!workerPromise) {
+    workerPromise = loadPdfjs()
+      .then(async (pdfjsLib) => {
+        const worker = new pdfjsLib.PDFWorker()
+        await worker.promise
+        return worker
+      })
+      .catch((error) => {
+        workerPromise = null // Allow a later document to retry
+        throw error
+      })
+  }
+  return workerPromise
+}
+
+export const pdfjsDocumentOptions = {
+  cMapUrl: `${PDFJS_ASSETS_PATH}/cmaps/`,
+  cMapPacked: true,
+  standardFontDataUrl: `${PDFJS_ASSETS_PATH}/standard_fonts/`,
+  wasmUrl: `${PDFJS_ASSETS_PATH}/wasm/`,
+  iccUrl: `${PDFJS_ASSETS_PATH}/iccs/`,
+}
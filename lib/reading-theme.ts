@@ -0,0 +1,46 @@
+type ReadingTheme = "dark" | "sepia" | "high-contrast"
+
+export const READING_FONT_FAMILY =
+  'ui-sans-serif, system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif'
+
+// Surface for documents shown as live text rather than rendered pages
+export function getReadingSurfaceStyles(theme: ReadingTheme, contrast: number, brightness: number) {
+  const baseFilter = `contrast(${contrast}) brightness(${brightness})`
+
+  switch (theme) {
+    case "sepia":
+      return {
+        backgroundColor: "#2d2318",
+        color: "#e8d5b7",
+        border: "1px solid #4a3728",
+        filter: baseFilter,
+      }
+    case "high-contrast":
+      return {
+        backgroundColor: "#000000",
+        color: "#ffffff",
+        border: "1px solid #333333",
+        filter: `${baseFilter} saturate(1.2)`,
+      }
+    default:
+      return {
+        backgroundColor: "#1f2937",
+        color: "#f3f4f6",
+        border: "1px solid #374151",
+        filter: baseFilter,
+      }
+  }
+}
+
+export function getReadingTextColor(theme: ReadingTheme, contrast: number) {
+  const textOpacity = Math.min(1, 0.8 + (contrast - 1) * 0.2)
+
+  switch (theme) {
+    case "sepia":
+      return `rgba(232, 213, 183, ${textOpacity})`
+    case "high-contrast":
+      return `rgba(255, 255, 255, ${textOpacity})`
+    default:
+      return `rgba(229, 231, 235, ${textOpacity})`
+  }
+}
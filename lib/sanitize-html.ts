@@ -0,0 +1,125 @@
+// Allow-list sanitizer for the HTML mammoth produces from a DOCX. The document is
+// untrusted, so anything not listed here is removed before it reaches the page.
+
+export interface RejectedContent {
+  type: "element" | "attribute" | "url"
+  name: string
+  count: number
+}
+
+export interface SanitizedHtml {
+  html: string
+  rejected: RejectedContent[]
+}
+
+const ALLOWED_ELEMENTS = new Set([
+  "a", "b", "blockquote", "br", "caption", "code", "col", "colgroup", "div", "em", "h1", "h2", "h3", "h4",
+  "h5", "h6", "hr", "i", "img", "li", "ol", "p", "pre", "s", "span", "strong", "sub", "sup", "table", "tbody",
+  "td", "tfoot", "th", "thead", "tr", "u", "ul",
+])
+
+// Elements whose content is dropped along with them, rather than kept as plain text
+const REMOVED_WITH_CONTENT = new Set([
+  "base", "button", "embed", "form", "frame", "frameset", "iframe", "input", "link", "math", "meta", "noscript",
+  "object", "script", "select", "style", "svg", "template", "textarea", "title",
+])
+
+const GLOBAL_ATTRIBUTES = new Set(["id", "class", "title", "lang", "dir"])
+
+const ELEMENT_ATTRIBUTES: Record<string, Set<string>> = {
+  a: new Set(["href"]),
+  // data-image-id links an image to what the converter recorded about it
+  img: new Set(["src", "alt", "width", "height", "data-image-id"]),
+  ol: new Set(["start", "type"]),
+  td: new Set(["colspan", "rowspan"]),
+  th: new Set(["colspan", "rowspan", "scope"]),
+  col: new Set(["span"]),
+  colgroup: new Set(["span"]),
+}
+
+const URL_ATTRIBUTES = new Set(["href", "src"])
+
+const LINK_PROTOCOLS = new Set(["http:", "https:", "mailto:", "tel:"])
+
+// Mammoth inlines images as base64 data URLs; only raster formats are let through
+const IMAGE_DATA_URL = /^data:image\/(png|jpe?g|gif|webp|bmp);base64,[a-z0-9+/=\s]*$/i
+
+export function isAllowedImageSrc(src: string) {
+  return IMAGE_DATA_URL.test(src.trim())
+}
+
+function isAllowedUrl(element: string, attribute: string, value: string) {
+  const url = value.trim()
+  if (element === "img" && attribute === "src") return isAllowedImageSrc(url)
+  // In-document links, such as footnote references and bookmarks
+  if (url.startsWith("#")) return true
+  try {
+    return LINK_PROTOCOLS.has(new URL(url).protocol)
+  } catch {
+    return false
+  }
+}
+
+// Reports the scheme of a rejected URL rather than the whole, possibly huge, value
+function describeUrl(value: string) {
+  const url = value.trim()
+  if (/^data:/i.test(url)) return url.split(/[;,]/)[0]
+  return /^[a-z][a-z0-9+.-]*:/i.exec(url)?.[0] ?? "relative URL"
+}
+
+export function sanitizeHtml(html: string): SanitizedHtml {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, "text/html")
+  const rejected = new Map<string, RejectedContent>()
+
+  const reject = (type: RejectedContent["type"], name: string) => {
+    const key = `${type}:${name}`
+    const entry = rejected.get(key)
+    if (entry) entry.count++
+    else rejected.set(key, { type, name, count: 1 })
+  }
+
+  const cleanElement = (element: Element) => {
+    for (const child of Array.from(element.children)) {
+      const tag = child.tagName.toLowerCase()
+
+      if (!ALLOWED_ELEMENTS.has(tag)) {
+        reject("element", tag)
+        if (REMOVED_WITH_CONTENT.has(tag)) {
+          child.remove()
+        } else {
+          // Unknown but harmless wrappers keep their text
+          cleanElement(child)
+          child.replaceWith(...Array.from(child.childNodes))
+        }
+        continue
+      }
+
+      for (const attribute of Array.from(child.attributes)) {
+        const name = attribute.name.toLowerCase()
+        if (!GLOBAL_ATTRIBUTES.has(name) && !ELEMENT_ATTRIBUTES[tag]?.has(name)) {
+          reject("attribute", name)
+          child.removeAttribute(attribute.name)
+        } else if (URL_ATTRIBUTES.has(name) && !isAllowedUrl(tag, name, attribute.value)) {
+          reject("url", describeUrl(attribute.value))
+          child.removeAttribute(attribute.name)
+        }
+      }
+
+      // External links open outside the reader, with no access back to it
+      if (tag === "a" && child.getAttribute("href") && !child.getAttribute("href")!.startsWith("#")) {
+        child.setAttribute("target", "_blank")
+        child.setAttribute("rel", "noopener noreferrer")
+      }
+
+      cleanElement(child)
+    }
+
+    // Comments can hide conditional markup
+    for (const node of Array.from(element.childNodes)) {
+      if (node.nodeType === Node.COMMENT_NODE) node.remove()
+    }
+  }
+
+  cleanElement(doc.body)
+  return { html: doc.body.innerHTML, rejected: Array.from(rejected.values()) }
+}
@@ -0,0 +1,65 @@
+export type ConversionMessageCategory = "style" | "styleMap" | "element" | "image" | "table" | "field" | "other"
+
+export interface ConversionMessage {
+  severity: "warning" | "error"
+  category: ConversionMessageCategory
+  message: string
+  // Set for unrecognised styles, which mammoth renders as plain paragraphs and runs
+  styleName: string | null
+  styleType: string | null
+  // Identical warnings are reported once, with how often they occurred
+  count: number
+}
+
+interface MammothMessage {
+  type: "warning" | "error"
+  message: string
+}
+
+const UNRECOGNISED_STYLE = /^Unrecognised (\w+) style: '(.*)' \(Style ID: (.*)\)$/
+
+function getCategory(message: string): ConversionMessageCategory {
+  if (UNRECOGNISED_STYLE.test(message)) return "style"
+  if (message.startsWith("Did not understand this style mapping")) return "styleMap"
+  if (/image|a:blip|v:imagedata/i.test(message)) return "image"
+  if (/table|cell merging/i.test(message)) return "table"
+  if (/complex field|w:sym/i.test(message)) return "field"
+  if (/unrecognised element|unsupported|was ignored/i.test(message)) return "element"
+  return "other"
+}
+
+export function toConversionMessages(messages: MammothMessage[]): ConversionMessage[] {
+  const grouped = new Map<string, ConversionMessage>()
+
+  for (const { type, message } of messages) {
+    const key = `${type}:${message}`
+    const existing = grouped.get(key)
+    if (existing) {
+      existing.count++
+      continue
+    }
+
+    const style = UNRECOGNISED_STYLE.exec(message)
+    grouped.set(key, {
+      severity: type,
+      category: getCategory(message),
+      message,
+      // Styles referenced without being defined are named 'null'; their ID is all there is
+      styleName: style ? (style[2] && style[2] !== "null" ? style[2] : style[3]) : null,
+      styleType: style ? style[1] : null,
+      count: 1,
+    })
+  }
+
+  // Errors first, then the dropped styles users can fix with a style map
+  const order: ConversionMessageCategory[] = ["style", "styleMap", "element", "image", "table", "field", "other"]
+  return Array.from(grouped.values()).sort(
+    (a, b) =>
+      (a.severity === b.severity ? 0 : a.severity === "error" ? -1 : 1) ||
+      order.indexOf(a.category) - order.indexOf(b.category),
+  )
+}
+
+export function countConversionMessages(messages: ConversionMessage[]) {
+  return messages.reduce((total, message) => total + message.count, 0)
+}
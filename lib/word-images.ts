@@ -0,0 +1,116 @@
+import type mammoth from "mammoth"
+import { isAllowedImageSrc } from "@/lib/sanitize-html"
+
+export type ImageTreatment = "as-is" | "dim" | "matte" | "invert-line-art"
+
+export interface WordImage {
+  id: string
+  src: string
+  alt: string | null
+  contentType: string
+  // Natural size in pixels, 0 when the browser cannot decode the format
+  width: number
+  height: number
+  hasTransparency: boolean
+  // Mostly dark, colourless strokes on a white or transparent background
+  isLineArt: boolean
+}
+
+export const IMAGE_TREATMENT_LABELS: Record<ImageTreatment, string> = {
+  "as-is": "Leave As-Is",
+  dim: "Dim",
+  matte: "Light Matte (Transparent Images)",
+  "invert-line-art": "Invert Line Art",
+}
+
+export const DEFAULT_IMAGE_TREATMENTS: Record<"dark" | "sepia" | "high-contrast", ImageTreatment> = {
+  dark: "dim",
+  sepia: "dim",
+  "high-contrast": "invert-line-art",
+}
+
+// Images are analysed at this size at most; the proportions are all that matter
+const SAMPLE_SIZE = 96
+
+async function analyzeImage(src: string) {
+  const image = new Image()
+  image.src = src
+  await image.decode()
+
+  const width = image.naturalWidth
+  const height = image.naturalHeight
+  const scale = Math.min(1, SAMPLE_SIZE / Math.max(width, height))
+  const canvas = document.createElement("canvas")
+  canvas.width = Math.max(1, Math.round(width * scale))
+  canvas.height = Math.max(1, Math.round(height * scale))
+  const ctx = canvas.getContext("2d", { willReadFrequently: true })!
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height)
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height)
+
+  let transparent = 0
+  let background = 0
+  let dark = 0
+  let coloured = 0
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3]
+    if (alpha < 250) transparent++
+    if (alpha < 32) {
+      background++
+      continue
+    }
+    const max = Math.max(data[i], data[i + 1], data[i + 2])
+    const min = Math.min(data[i], data[i + 1], data[i + 2])
+    const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]
+    if (max > 48 && (max - min) / max > 0.25) coloured++
+    else if (luminance > 224) background++
+    else if (luminance < 96) dark++
+  }
+
+  const total = canvas.width * canvas.height
+  return {
+    width,
+    height,
+    hasTransparency: transparent > 0,
+    isLineArt: coloured / total < 0.03 && background / total > 0.6 && dark / total > 0.005,
+  }
+}
+
+export function getImageClasses(image: WordImage) {
+  return ["docx-image", image.hasTransparency && "docx-image-transparent", image.isLineArt && "docx-image-line-art"]
+    .filter(Boolean)
+    .join(" ")
+}
+
+// Inlines each image as a data URL, like mammoth's default, and records what it found in `images`.
+// Images the sanitizer will strip, such as SVG, aren't recorded, so the lightbox can't show them either.
+export function createImageConverter(mammothLib: typeof mammoth, images: WordImage[]) {
+  return mammothLib.images.imgElement(async (element) => {
+    const src = `data:${element.contentType};base64,${await element.readAsBase64String()}`
+    if (!isAllowedImageSrc(src)) return { src, class: "docx-image" }
+
+    const image: WordImage = {
+      id: String(images.length + 1),
+      src,
+      alt: (element as { altText?: string }).altText ?? null,
+      contentType: element.contentType,
+      width: 0,
+      height: 0,
+      hasTransparency: false,
+      isLineArt: false,
+    }
+    images.push(image)
+
+    try {
+      Object.assign(image, await analyzeImage(src))
+    } catch {
+      // Formats such as EMF don't decode in the browser and are shown as they are
+    }
+
+    const attributes: Record<string, string> = { src, class: getImageClasses(image), "data-image-id": image.id }
+    if (image.width && image.height) {
+      attributes.width = String(image.width)
+      attributes.height = String(image.height)
+    }
+    return attributes as { src: string }
+  })
+}
@@ -0,0 +1,57 @@
+// Mammoth style map rules, see https://github.com/mwilliamson/mammoth.js#writing-style-maps.
+// The classes they produce are themed in the Word viewer's content styles.
+
+export interface WordStyleMapSettings {
+  // One rule per line; blank lines and lines starting with # are skipped
+  customRules: string
+  useBuiltInRules: boolean
+}
+
+export const BUILT_IN_STYLE_MAP = [
+  "p[style-name='Note'] => div.docx-note > p:fresh",
+  "p[style-name='Warning'] => div.docx-warning > p:fresh",
+  "p[style-name='Code Block'] => pre.docx-code:separator('\\n')",
+  "r[style-name='Code'] => code",
+  "p[style-name='Quote'] => blockquote.docx-quote > p:fresh",
+  "p[style-name='Intense Quote'] => blockquote.docx-quote > p:fresh",
+]
+
+// Classes the theme styles, for use in custom rules
+export const THEMED_CLASSES = ["docx-note", "docx-warning", "docx-code", "docx-quote"]
+
+export const DEFAULT_STYLE_MAP_SETTINGS: WordStyleMapSettings = {
+  customRules: "",
+  useBuiltInRules: true,
+}
+
+const STORAGE_KEY = "dark-document-reader:word-style-map"
+
+export function loadStyleMapSettings(): WordStyleMapSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null") as Partial<WordStyleMapSettings> | null
+    return {
+      customRules: typeof saved?.customRules === "string" ? saved.customRules : DEFAULT_STYLE_MAP_SETTINGS.customRules,
+      useBuiltInRules:
+        typeof saved?.useBuiltInRules === "boolean" ? saved.useBuiltInRules : DEFAULT_STYLE_MAP_SETTINGS.useBuiltInRules,
+    }
+  } catch {
+    return DEFAULT_STYLE_MAP_SETTINGS
+  }
+}
+
+export function saveStyleMapSettings(settings: WordStyleMapSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+  } catch (error) {
+    console.error("Error saving Word style map:", error)
+  }
+}
+
+// Custom rules come first so they override a built-in rule for the same style
+export function getStyleMapRules({ customRules, useBuiltInRules }: WordStyleMapSettings) {
+  const rules = customRules
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"))
+  return useBuiltInRules ? [...rules, ...BUILT_IN_STYLE_MAP] : rules
+}
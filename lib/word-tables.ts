@@ -0,0 +1,15 @@
+// Wraps each top-level table in a scroll container, so wide tables scroll sideways
+// inside the document card instead of overflowing it. Nested tables scroll with their cell.
+export function wrapTables(html: string) {
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, "text/html")
+  const tables = Array.from(doc.body.querySelectorAll("table")).filter((table) => !table.parentElement?.closest("table"))
+  if (tables.length === 0) return html
+
+  for (const table of tables) {
+    const wrapper = doc.createElement("div")
+    wrapper.className = "docx-table-wrapper"
+    table.replaceWith(wrapper)
+    wrapper.appendChild(table)
+  }
+  return doc.body.innerHTML
+}
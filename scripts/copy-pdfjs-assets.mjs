@@ -0,0 +1,32 @@
+// Copies the pdf.js worker, CMaps, standard fonts and wasm decoders into
+// public/pdfjs so PDFs can be opened without reaching a CDN.
+import { cpSync, existsSync, mkdirSync, rmSync } from "node:fs"
+import { createRequire } from "node:module"
+import { dirname, join } from "node:path"
+import { fileURLToPath } from "node:url"
+
+const require = createRequire(import.meta.url)
+const pdfjsRoot = dirname(require.resolve("pdfjs-dist/package.json"))
+const target = join(dirname(fileURLToPath(import.meta.url)), "..", "public", "pdfjs")
+
+const assets = [
+  ["build/pdf.worker.min.mjs", "pdf.worker.min.mjs"],
+  ["cmaps", "cmaps"],
+  ["standard_fonts", "standard_fonts"],
+  ["wasm", "wasm"],
+  ["iccs", "iccs"],
+]
+
+rmSync(target, { recursive: true, force: true })
+mkdirSync(target, { recursive: true })
+
+for (const [from, to] of assets) {
+  const source = join(pdfjsRoot, from)
+  if (!existsSync(source)) {
+    console.warn(`pdfjs-dist has no ${from}, skipping`)
+    continue
+  }
+  cpSync(source, join(target, to), { recursive: true })
+}
+
+console.log(`Copied pdf.js assets to ${target}`)
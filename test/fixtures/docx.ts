@@ -0,0 +1,106 @@
+import JSZip from "jszip"
+
+// Builds a minimal .docx in memory, so each fixture is only the markup it is about
+
+interface DocxFixture {
+  // Children of <w:body>
+  body: string
+  // Paragraph styles, by ID and name
+  paragraphStyles?: Record<string, string>
+  // Relationships from the document, by ID
+  relationships?: Record<string, { type: string; target: string; external?: boolean }>
+  // Parts under word/media, by file name
+  media?: Record<string, { contentType: string; content: string | Uint8Array }>
+}
+
+const NAMESPACES = [
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"',
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"',
+  'xmlns:v="urn:schemas-microsoft-com:vml"',
+].join(" ")
+
+const RELATIONSHIP_TYPES = "http://schemas.openxmlformats.org/officeDocument/2006/relationships"
+
+export const HYPERLINK_RELATIONSHIP = `${RELATIONSHIP_TYPES}/hyperlink`
+export const IMAGE_RELATIONSHIP = `${RELATIONSHIP_TYPES}/image`
+
+export function paragraph(text: string, styleId?: string) {
+  const properties = styleId ? `<w:pPr><w:pStyle w:val="${styleId}"/></w:pPr>` : ""
+  return `<w:p>${properties}<w:r><w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r></w:p>`
+}
+
+export function hyperlink(relationshipId: string, text: string) {
+  return `<w:p><w:hyperlink r:id="${relationshipId}"><w:r><w:t>${escapeXml(text)}</w:t></w:r></w:hyperlink></w:p>`
+}
+
+export function image(relationshipId: string) {
+  return `<w:p><w:r><w:pict><v:shape><v:imagedata r:id="${relationshipId}"/></v:shape></w:pict></w:r></w:p>`
+}
+
+function escapeXml(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+export async function createDocx({ body, paragraphStyles = {}, relationships = {}, media = {} }: DocxFixture) {
+  const zip = new JSZip()
+
+  const mediaTypes = Object.entries(media)
+    .map(([name, { contentType }]) => `<Override PartName="/word/media/${name}" ContentType="${contentType}"/>`)
+    .join("")
+  zip.file(
+    "[Content_Types].xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+${mediaTypes}
+</Types>`,
+  )
+
+  zip.file(
+    "_rels/.rels",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="${RELATIONSHIP_TYPES}/officeDocument" Target="word/document.xml"/>
+</Relationships>`,
+  )
+
+  const documentRelationships = Object.entries(relationships)
+    .map(
+      ([id, { type, target, external }]) =>
+        `<Relationship Id="${id}" Type="${type}" Target="${escapeXml(target)}"${external ? ' TargetMode="External"' : ""}/>`,
+    )
+    .join("")
+  zip.file(
+    "word/_rels/document.xml.rels",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rIdStyles" Type="${RELATIONSHIP_TYPES}/styles" Target="styles.xml"/>
+${documentRelationships}
+</Relationships>`,
+  )
+
+  const styles = Object.entries(paragraphStyles)
+    .map(([id, name]) => `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${escapeXml(name)}"/></w:style>`)
+    .join("")
+  zip.file(
+    "word/styles.xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles ${NAMESPACES}>${styles}</w:styles>`,
+  )
+
+  zip.file(
+    "word/document.xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document ${NAMESPACES}><w:body>${body}</w:body></w:document>`,
+  )
+
+  for (const [name, { content }] of Object.entries(media)) {
+    zip.file(`word/media/${name}`, content)
+  }
+
+  // Node's build of mammoth reads buffers where the browser's reads array buffers
+  return zip.generateAsync({ type: "nodebuffer" })
+}
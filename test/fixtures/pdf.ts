@@ -0,0 +1,114 @@
+import { createHash } from "node:crypto"
+
+// Builds a small PDF in memory with one line of text per page. With a password it is encrypted
+// with the standard security handler at its simplest (40-bit RC4), which pdf.js still opens.
+
+interface PdfFixturePage {
+  text: string
+  // The page's own /Rotate
+  rotate?: number
+}
+
+interface PdfFixture {
+  pages: PdfFixturePage[]
+  userPassword?: string
+}
+
+// Pads passwords to 32 bytes, as the PDF specification's key algorithm requires
+const PASSWORD_PADDING = Buffer.from("28bf4e5e4e758a4164004e56fffa01082e2e00b6d0683e802f0ca9fe6453697a", "hex")
+const FILE_ID = Buffer.from("0123456789abcdef")
+const PERMISSIONS = -4
+
+function rc4(key: Buffer, data: Buffer) {
+  const state = Array.from({ length: 256 }, (_, index) => index)
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + state[i] + key[i % key.length]) % 256
+    ;[state[i], state[j]] = [state[j], state[i]]
+  }
+
+  const output = Buffer.alloc(data.length)
+  for (let n = 0, i = 0, j = 0; n < data.length; n++) {
+    i = (i + 1) % 256
+    j = (j + state[i]) % 256
+    ;[state[i], state[j]] = [state[j], state[i]]
+    output[n] = data[n] ^ state[(state[i] + state[j]) % 256]
+  }
+  return output
+}
+
+function md5(...parts: Buffer[]) {
+  return createHash("md5").update(Buffer.concat(parts)).digest()
+}
+
+function padPassword(password: string) {
+  return Buffer.concat([Buffer.from(password, "latin1"), PASSWORD_PADDING]).subarray(0, 32)
+}
+
+function createEncryption(userPassword: string) {
+  const ownerEntry = rc4(md5(padPassword(`${userPassword}-owner`)).subarray(0, 5), padPassword(userPassword))
+  const permissions = Buffer.alloc(4)
+  permissions.writeInt32LE(PERMISSIONS)
+  const key = md5(padPassword(userPassword), ownerEntry, permissions, FILE_ID).subarray(0, 5)
+
+  return {
+    dictionary: `<< /Filter /Standard /V 1 /R 2 /O <${ownerEntry.toString("hex")}> /U <${rc4(key, PASSWORD_PADDING).toString("hex")}> /P ${PERMISSIONS} >>`,
+    // Each object's streams have their own key, from the file key and the object number
+    encrypt: (objectNumber: number, data: Buffer) => {
+      const objectId = Buffer.from([objectNumber & 255, (objectNumber >> 8) & 255, (objectNumber >> 16) & 255, 0, 0])
+      return rc4(md5(key, objectId).subarray(0, 10), data)
+    },
+  }
+}
+
+export function createPdf({ pages, userPassword }: PdfFixture): Uint8Array {
+  const encryption = userPassword === undefined ? null : createEncryption(userPassword)
+  const encrypt = (objectNumber: number, data: Buffer) => encryption?.encrypt(objectNumber, data) ?? data
+
+  // 1 is the catalog, 2 the page tree, 3 the font, then a page and its contents for each page
+  const objects = new Map<number, Buffer>()
+  const pageNumbers = pages.map((_, index) => 4 + index * 2)
+  objects.set(1, Buffer.from("<< /Type /Catalog /Pages 2 0 R >>"))
+  objects.set(2, Buffer.from(`<< /Type /Pages /Kids [${pageNumbers.map((n) => `${n} 0 R`).join(" ")}] /Count ${pages.length} >>`))
+  objects.set(3, Buffer.from("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>"))
+
+  pages.forEach(({ text, rotate }, index) => {
+    const pageNumber = pageNumbers[index]
+    const contentsNumber = pageNumber + 1
+    objects.set(
+      pageNumber,
+      Buffer.from(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> ` +
+          `/Contents ${contentsNumber} 0 R${rotate ? ` /Rotate ${rotate}` : ""} >>`,
+      ),
+    )
+    const content = encrypt(contentsNumber, Buffer.from(`BT /F1 24 Tf 72 700 Td (${text}) Tj ET`, "latin1"))
+    objects.set(
+      contentsNumber,
+      Buffer.concat([Buffer.from(`<< /Length ${content.length} >>\nstream\n`), content, Buffer.from("\nendstream")]),
+    )
+  })
+
+  const encryptNumber = objects.size + 1
+  if (encryption) objects.set(encryptNumber, Buffer.from(encryption.dictionary))
+
+  const chunks = [Buffer.from("%PDF-1.4\n")]
+  let length = chunks[0].length
+  const offsets: number[] = []
+  for (const [number, body] of [...objects].sort(([a], [b]) => a - b)) {
+    offsets[number] = length
+    const object = Buffer.concat([Buffer.from(`${number} 0 obj\n`), body, Buffer.from("\nendobj\n")])
+    chunks.push(object)
+    length += object.length
+  }
+
+  const size = objects.size + 1
+  const id = `<${FILE_ID.toString("hex")}>`
+  const xref =
+    `xref\n0 ${size}\n0000000000 65535 f \n` +
+    offsets.slice(1).map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("") +
+    `trailer\n<< /Size ${size} /Root 1 0 R${encryption ? ` /Encrypt ${encryptNumber} 0 R` : ""} /ID [${id} ${id}] >>\n` +
+    `startxref\n${length}\n%%EOF\n`
+  chunks.push(Buffer.from(xref))
+
+  return new Uint8Array(Buffer.concat(chunks))
+}
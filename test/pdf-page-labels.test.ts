@@ -0,0 +1,64 @@
+import type { PDFDocumentProxy } from "pdfjs-dist"
+import { describe, expect, it } from "vitest"
+import { getPageLabel, getPageLabels, resolvePageInput } from "@/lib/pdf-page-labels"
+
+function createDocument(numPages: number, labels: string[] | null) {
+  return { numPages, getPageLabels: async () => labels } as unknown as PDFDocumentProxy
+}
+
+// A book with roman-numbered front matter, then chapters numbered from 1
+const BOOK_LABELS = ["i", "ii", "iii", "1", "2", "3", "4"]
+
+describe("getPageLabels", () => {
+  it("returns the labels of a document that defines its own numbering", async () => {
+    expect(await getPageLabels(createDocument(7, BOOK_LABELS))).toEqual(BOOK_LABELS)
+  })
+
+  it("returns null when the document has no labels, or labels that add nothing", async () => {
+    expect(await getPageLabels(createDocument(3, null))).toBeNull()
+    expect(await getPageLabels(createDocument(3, ["1", "2", "3"]))).toBeNull()
+  })
+
+  it("returns null when the labels don't cover every page", async () => {
+    expect(await getPageLabels(createDocument(4, ["i", "ii", "1"]))).toBeNull()
+  })
+})
+
+describe("getPageLabel", () => {
+  it("shows the label, falling back to the page number", () => {
+    expect(getPageLabel(BOOK_LABELS, 2)).toBe("ii")
+    expect(getPageLabel(null, 2)).toBe("2")
+    expect(getPageLabel(["A-1", ""], 2)).toBe("2")
+  })
+})
+
+describe("resolvePageInput", () => {
+  it("goes to roman-numbered pages, whatever their case", () => {
+    expect(resolvePageInput("iii", BOOK_LABELS, 7)).toBe(3)
+    expect(resolvePageInput(" III ", BOOK_LABELS, 7)).toBe(3)
+  })
+
+  it("prefers a page's label over its position", () => {
+    expect(resolvePageInput("3", BOOK_LABELS, 7)).toBe(6)
+  })
+
+  it("falls back to the position for numbers that aren't labels", () => {
+    expect(resolvePageInput("7", BOOK_LABELS, 7)).toBe(7)
+    expect(resolvePageInput("8", BOOK_LABELS, 7)).toBeNull()
+  })
+
+  it("goes to the first of several pages with the same label", () => {
+    expect(resolvePageInput("A", ["Cover", "A", "B", "A"], 4)).toBe(2)
+  })
+
+  it("takes page numbers when the document has no labels", () => {
+    expect(resolvePageInput("2", null, 3)).toBe(2)
+    expect(resolvePageInput("0", null, 3)).toBeNull()
+    expect(resolvePageInput("4", null, 3)).toBeNull()
+    expect(resolvePageInput("ii", null, 3)).toBeNull()
+  })
+
+  it("ignores empty input", () => {
+    expect(resolvePageInput("  ", BOOK_LABELS, 7)).toBeNull()
+  })
+})
@@ -0,0 +1,88 @@
+// @vitest-environment node
+import type { PDFDocumentLoadingTask, PDFDocumentProxy } from "pdfjs-dist"
+import { afterEach, beforeAll, describe, expect, it } from "vitest"
+import { exportRotatedPdf, rotatePages } from "@/lib/pdf-rotation"
+import { createPdf } from "./fixtures/pdf"
+
+type Pdfjs = typeof import("pdfjs-dist")
+
+let pdfjsLib: Pdfjs
+const loadingTasks: PDFDocumentLoadingTask[] = []
+
+beforeAll(async () => {
+  // pdf.js expects Promise.withResolvers, which Node 20 doesn't have yet
+  Promise.withResolvers ??= function <T>() {
+    let resolve!: (value: T | PromiseLike<T>) => void
+    let reject!: (reason?: unknown) => void
+    const promise = new Promise<T>((res, rej) => {
+      resolve = res
+      reject = rej
+    })
+    return { promise, resolve, reject }
+  }
+  pdfjsLib = (await import("pdfjs-dist/legacy/build/pdf.mjs")) as unknown as Pdfjs
+})
+
+afterEach(async () => {
+  await Promise.all(loadingTasks.splice(0).map((loadingTask) => loadingTask.destroy()))
+})
+
+async function open(data: Uint8Array, password?: string) {
+  const loadingTask = pdfjsLib.getDocument({ data: data.slice(), password, verbosity: 0 })
+  loadingTasks.push(loadingTask)
+  return loadingTask.promise
+}
+
+async function getRotations(pdfDoc: PDFDocumentProxy) {
+  const rotations: number[] = []
+  for (let pageNumber = 1; pageNumber <= pdfDoc.numPages; pageNumber++) {
+    rotations.push((await pdfDoc.getPage(pageNumber)).rotate)
+  }
+  return rotations
+}
+
+async function getPageText(pdfDoc: PDFDocumentProxy, pageNumber: number) {
+  const { items } = await (await pdfDoc.getPage(pageNumber)).getTextContent()
+  return items.map((item) => ("str" in item ? item.str : "")).join("")
+}
+
+describe("rotatePages", () => {
+  it("turns pages a quarter at a time and forgets pages turned back upright", () => {
+    expect(rotatePages({ 1: 270, 2: 90 }, [1, 2, 3])).toEqual({ 2: 180, 3: 90 })
+    expect(rotatePages({ 2: 90 }, [2], -90)).toEqual({})
+  })
+})
+
+describe("exportRotatedPdf", () => {
+  const pages = [{ text: "First" }, { text: "Second", rotate: 90 }, { text: "Third" }]
+
+  it("turns pages on top of the rotation stored in the PDF", async () => {
+    const pdfDoc = await open(createPdf({ pages }))
+
+    const exported = await open(await exportRotatedPdf(pdfDoc, { 1: 90, 2: 90, 3: 180 }))
+
+    expect(await getRotations(exported)).toEqual([90, 180, 180])
+    expect(await getPageText(exported, 3)).toBe("Third")
+  })
+
+  it("leaves pages without a rotation as they are", async () => {
+    const pdfDoc = await open(createPdf({ pages }))
+
+    const exported = await open(await exportRotatedPdf(pdfDoc, {}))
+
+    expect(await getRotations(exported)).toEqual([0, 90, 0])
+  })
+
+  it("keeps an encrypted document encrypted and readable with its password", async () => {
+    const data = createPdf({ pages, userPassword: "secret" })
+    const pdfDoc = await open(data, "secret")
+
+    const exportedData = await exportRotatedPdf(pdfDoc, { 1: 270, 2: 180 })
+
+    await expect(open(exportedData)).rejects.toMatchObject({ name: "PasswordException" })
+    const exported = await open(exportedData, "secret")
+    expect(await getRotations(exported)).toEqual([270, 270, 0])
+    expect(await getPageText(exported, 1)).toBe("First")
+    expect(await getPageText(exported, 2)).toBe("Second")
+  })
+})
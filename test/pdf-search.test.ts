@@ -0,0 +1,105 @@
+import type { PDFDocumentProxy } from "pdfjs-dist"
+import { describe, expect, it } from "vitest"
+import { buildSearchIndex, findMatches, getPageHighlights, type SearchOptions } from "@/lib/pdf-search"
+
+type TextItem = { str: string; hasEOL?: boolean } | { type: string }
+
+// Just enough of a document for the indexer: pages with text items
+function createDocument(pages: TextItem[][]) {
+  return {
+    numPages: pages.length,
+    getPage: async (pageNumber: number) => ({
+      getTextContent: async () => ({ items: pages[pageNumber - 1] }),
+    }),
+  } as unknown as PDFDocumentProxy
+}
+
+const DEFAULT_OPTIONS: SearchOptions = { caseSensitive: false, wholeWord: false }
+
+describe("buildSearchIndex", () => {
+  it("joins a page's text items, with line ends as spaces", async () => {
+    const pdfDoc = createDocument([
+      [{ str: "Hello " }, { str: "world", hasEOL: true }, { type: "beginMarkedContent" }, { str: "again" }],
+    ])
+
+    const index = await buildSearchIndex(pdfDoc)
+
+    expect(index).toEqual([{ text: "Hello world again", itemStarts: [0, 6, 12], itemLengths: [6, 5, 5] }])
+  })
+
+  it("stops when cancelled", async () => {
+    const pdfDoc = createDocument([[{ str: "One" }], [{ str: "Two" }]])
+    let indexed = 0
+
+    const index = await buildSearchIndex(
+      pdfDoc,
+      (pages) => (indexed = pages),
+      () => indexed === 1,
+    )
+
+    expect(index).toBeNull()
+  })
+})
+
+describe("findMatches", () => {
+  it("finds matches that span text items and lines", async () => {
+    const index = (await buildSearchIndex(
+      createDocument([[{ str: "The qu" }, { str: "ick", hasEOL: true }, { str: "brown fox" }]]),
+    ))!
+
+    expect(findMatches(index, "quick brown", DEFAULT_OPTIONS)).toEqual([{ pageNumber: 1, start: 4, end: 15 }])
+  })
+
+  it("ignores case unless asked not to", async () => {
+    const index = (await buildSearchIndex(createDocument([[{ str: "Straße STRASSE straße" }], [{ str: "ÉTÉ été" }]])))!
+
+    expect(findMatches(index, "STRAßE", DEFAULT_OPTIONS)).toEqual([
+      { pageNumber: 1, start: 0, end: 6 },
+      { pageNumber: 1, start: 15, end: 21 },
+    ])
+    expect(findMatches(index, "été", DEFAULT_OPTIONS)).toHaveLength(2)
+    expect(findMatches(index, "été", { caseSensitive: true, wholeWord: false })).toEqual([
+      { pageNumber: 2, start: 4, end: 7 },
+    ])
+  })
+
+  it("matches whole words only when asked", async () => {
+    const index = (await buildSearchIndex(createDocument([[{ str: "cat concatenate cat_1 cat." }]])))!
+
+    expect(findMatches(index, "cat", DEFAULT_OPTIONS)).toHaveLength(4)
+    expect(findMatches(index, "cat", { caseSensitive: false, wholeWord: true })).toEqual([
+      { pageNumber: 1, start: 0, end: 3 },
+      { pageNumber: 1, start: 22, end: 25 },
+    ])
+  })
+
+  it("searches for regular expression characters literally", async () => {
+    const index = (await buildSearchIndex(createDocument([[{ str: "a+b (a+b) aab" }]])))!
+
+    expect(findMatches(index, "(a+b)", DEFAULT_OPTIONS)).toEqual([{ pageNumber: 1, start: 4, end: 9 }])
+  })
+
+  it("finds nothing for an empty query", async () => {
+    const index = (await buildSearchIndex(createDocument([[{ str: "Some text" }]])))!
+
+    expect(findMatches(index, "", DEFAULT_OPTIONS)).toEqual([])
+    expect(findMatches(index, "   ", DEFAULT_OPTIONS)).toEqual([])
+  })
+})
+
+describe("getPageHighlights", () => {
+  it("splits a match across the text items it covers", async () => {
+    const index = (await buildSearchIndex(
+      createDocument([[{ str: "The qu" }, { str: "ick", hasEOL: true }, { str: "brown fox" }], [{ str: "quick" }]]),
+    ))!
+    const matches = findMatches(index, "quick", DEFAULT_OPTIONS)
+
+    expect(getPageHighlights(index, matches, 1)).toEqual({
+      1: [
+        { itemIndex: 0, start: 4, end: 6, selected: false },
+        { itemIndex: 1, start: 0, end: 3, selected: false },
+      ],
+      2: [{ itemIndex: 0, start: 0, end: 5, selected: true }],
+    })
+  })
+})
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest"
+import { getNextSpreadPage, getPreviousSpreadPage, getSpreadRange, getSpreads } from "@/lib/pdf-spreads"
+
+describe("getSpreads", () => {
+  it("shows one page at a time in single layout", () => {
+    expect(getSpreads(3, "single", true)).toEqual([
+      [1, 1],
+      [2, 2],
+      [3, 3],
+    ])
+  })
+
+  it("pairs pages from page 1 without a cover, leaving an odd last page alone", () => {
+    expect(getSpreads(5, "spread", false)).toEqual([
+      [1, 2],
+      [3, 4],
+      [5, 5],
+    ])
+  })
+
+  it("shows the cover alone and starts spreads on even pages", () => {
+    expect(getSpreads(5, "spread", true)).toEqual([
+      [1, 1],
+      [2, 3],
+      [4, 5],
+    ])
+    expect(getSpreads(4, "spread", true)).toEqual([
+      [1, 1],
+      [2, 3],
+      [4, 4],
+    ])
+  })
+
+  it("has no spreads for an empty document", () => {
+    expect(getSpreads(0, "spread", true)).toEqual([])
+  })
+})
+
+describe("getSpreadRange", () => {
+  it("finds the spread from either of its pages", () => {
+    expect(getSpreadRange(2, 6, "spread", false)).toEqual([1, 2])
+    expect(getSpreadRange(3, 6, "spread", true)).toEqual([2, 3])
+    expect(getSpreadRange(2, 6, "spread", true)).toEqual([2, 3])
+    expect(getSpreadRange(1, 6, "spread", true)).toEqual([1, 1])
+  })
+})
+
+describe("spread navigation", () => {
+  it("moves a whole spread at a time and stops at the ends", () => {
+    expect(getNextSpreadPage(1, 5, "spread", true)).toBe(2)
+    expect(getNextSpreadPage(3, 5, "spread", true)).toBe(4)
+    expect(getNextSpreadPage(4, 5, "spread", true)).toBe(5)
+
+    expect(getPreviousSpreadPage(5, 5, "spread", true)).toBe(2)
+    expect(getPreviousSpreadPage(2, 5, "spread", true)).toBe(1)
+    expect(getPreviousSpreadPage(1, 5, "spread", true)).toBe(1)
+  })
+
+  it("moves one page at a time in single layout", () => {
+    expect(getNextSpreadPage(2, 5, "single", true)).toBe(3)
+    expect(getPreviousSpreadPage(2, 5, "single", true)).toBe(1)
+  })
+})
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest"
+import { clampZoom, getZoomForMode, MAX_ZOOM, MIN_ZOOM, ZOOM_STEP } from "@/lib/pdf-zoom"
+
+const PAGE = { width: 600, height: 800 }
+const AVAILABLE = { width: 1000, height: 900 }
+
+describe("clampZoom", () => {
+  it("keeps zoom steps within the limits", () => {
+    expect(clampZoom(1 + ZOOM_STEP)).toBe(1.25)
+    expect(clampZoom(MAX_ZOOM + ZOOM_STEP)).toBe(MAX_ZOOM)
+    expect(clampZoom(MIN_ZOOM - ZOOM_STEP)).toBe(MIN_ZOOM)
+  })
+})
+
+describe("getZoomForMode", () => {
+  it("shows pages at their printed size in actual mode", () => {
+    expect(getZoomForMode("actual", 3, PAGE, AVAILABLE, 1)).toBe(1)
+  })
+
+  it("uses the clamped custom zoom in custom mode, and until the page is measured", () => {
+    expect(getZoomForMode("custom", 2, PAGE, AVAILABLE, 1)).toBe(2)
+    expect(getZoomForMode("custom", 9, PAGE, AVAILABLE, 1)).toBe(MAX_ZOOM)
+    expect(getZoomForMode("fit-width", 1.5, null, AVAILABLE, 1)).toBe(1.5)
+    expect(getZoomForMode("fit-page", 1.5, PAGE, null, 1)).toBe(1.5)
+  })
+
+  it("fits the page width inside the padding and frame border", () => {
+    // 1000 - 2 × 16 padding - 2 × 2 border
+    expect(getZoomForMode("fit-width", 1, PAGE, AVAILABLE, 1)).toBeCloseTo(964 / 600)
+  })
+
+  it("fits both pages of a spread and the gap between them", () => {
+    // 1000 - 2 × 16 padding - 16 gap - 2 × 2 × 2 border
+    expect(getZoomForMode("fit-width", 1, PAGE, AVAILABLE, 2)).toBeCloseTo(944 / 1200)
+  })
+
+  it("fits the whole page in fit-page mode", () => {
+    // 900 - 2 × 16 padding - 2 × 2 border, which is tighter than the width
+    expect(getZoomForMode("fit-page", 1, PAGE, AVAILABLE, 1)).toBeCloseTo(864 / 800)
+    expect(getZoomForMode("fit-page", 1, PAGE, { width: 500, height: 2000 }, 1)).toBeCloseTo(464 / 600)
+  })
+
+  it("never fits beyond the zoom limits", () => {
+    expect(getZoomForMode("fit-page", 1, PAGE, { width: 60, height: 60 }, 1)).toBe(MIN_ZOOM)
+    expect(getZoomForMode("fit-width", 1, { width: 10, height: 10 }, AVAILABLE, 1)).toBe(MAX_ZOOM)
+  })
+})
@@ -0,0 +1,142 @@
+import mammoth from "mammoth"
+import { describe, expect, it } from "vitest"
+import { sanitizeHtml } from "@/lib/sanitize-html"
+import { createImageConverter, type WordImage } from "@/lib/word-images"
+import { getStyleMapRules } from "@/lib/word-style-map"
+import {
+  createDocx,
+  HYPERLINK_RELATIONSHIP,
+  hyperlink,
+  image,
+  IMAGE_RELATIONSHIP,
+  paragraph,
+} from "./fixtures/docx"
+
+// A 1 × 1 transparent PNG
+const PNG = Uint8Array.from(
+  atob("iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII="),
+  (char) => char.charCodeAt(0),
+)
+
+// Converts and sanitizes a fixture the way the Word viewer does
+async function convert(buffer: Buffer, customRules = "") {
+  const images: WordImage[] = []
+  const result = await mammoth.convertToHtml(
+    { buffer },
+    {
+      styleMap: getStyleMapRules({ customRules, useBuiltInRules: true }),
+      convertImage: createImageConverter(mammoth, images),
+    },
+  )
+  return { ...sanitizeHtml(result.value), images }
+}
+
+describe("sanitizeHtml on converted Word documents", () => {
+  it("keeps web links, opening them outside the reader", async () => {
+    const docx = await createDocx({
+      body: hyperlink("rIdLink", "Example"),
+      relationships: { rIdLink: { type: HYPERLINK_RELATIONSHIP, target: "https://example.com/", external: true } },
+    })
+
+    const { html, rejected } = await convert(docx)
+
+    expect(html).toBe('<p><a href="https://example.com/" target="_blank" rel="noopener noreferrer">Example</a></p>')
+    expect(rejected).toEqual([])
+  })
+
+  it("removes javascript: links but keeps their text", async () => {
+    const docx = await createDocx({
+      body: hyperlink("rIdLink", "Click me"),
+      relationships: { rIdLink: { type: HYPERLINK_RELATIONSHIP, target: "javascript:alert(1)", external: true } },
+    })
+
+    const { html, rejected } = await convert(docx)
+
+    expect(html).toBe("<p><a>Click me</a></p>")
+    expect(rejected).toEqual([{ type: "url", name: "javascript:", count: 1 }])
+  })
+
+  it("keeps raster images and records them for the lightbox", async () => {
+    const docx = await createDocx({
+      body: image("rIdImage"),
+      relationships: { rIdImage: { type: IMAGE_RELATIONSHIP, target: "media/image1.png" } },
+      media: { "image1.png": { contentType: "image/png", content: PNG } },
+    })
+
+    const { html, rejected, images } = await convert(docx)
+
+    expect(html).toMatch(/^<img src="data:image\/png;base64,[^"]+" class="docx-image" data-image-id="1">$/)
+    expect(rejected).toEqual([])
+    expect(images).toMatchObject([{ id: "1", contentType: "image/png" }])
+  })
+
+  it("removes the source of SVG images, which can carry scripts", async () => {
+    const svg = '<svg xmlns="http://www.w3.org/2000/svg" onload="alert(1)"><script>alert(2)</script></svg>'
+    const docx = await createDocx({
+      body: image("rIdImage"),
+      relationships: { rIdImage: { type: IMAGE_RELATIONSHIP, target: "media/image1.svg" } },
+      media: { "image1.svg": { contentType: "image/svg+xml", content: svg } },
+    })
+
+    const { html, rejected, images } = await convert(docx)
+
+    expect(html).toBe('<img class="docx-image">')
+    expect(html).not.toContain("alert")
+    expect(rejected).toEqual([{ type: "url", name: "data:image/svg+xml", count: 1 }])
+    // Nothing the lightbox could open it with
+    expect(images).toEqual([])
+  })
+
+  it("removes event handler attributes added by a style map", async () => {
+    const docx = await createDocx({
+      body: paragraph("Hover here", "Handler") + paragraph("And here", "Handler"),
+      paragraphStyles: { Handler: "Handler" },
+    })
+
+    const { html, rejected } = await convert(docx, "p[style-name='Handler'] => p.note[onmouseover='alert(1)']:fresh")
+
+    expect(html).toBe('<p class="note">Hover here</p><p class="note">And here</p>')
+    expect(rejected).toEqual([{ type: "attribute", name: "onmouseover", count: 2 }])
+  })
+
+  it("removes script and iframe elements with their content", async () => {
+    const docx = await createDocx({
+      body: paragraph("Before") + paragraph("alert(1)", "Script") + paragraph("Framed", "Frame") + paragraph("After"),
+      paragraphStyles: { Script: "Script", Frame: "Frame" },
+    })
+
+    const { html, rejected } = await convert(
+      docx,
+      ["p[style-name='Script'] => script:fresh", "p[style-name='Frame'] => iframe[src='https://example.com/']:fresh"].join(
+        "\n",
+      ),
+    )
+
+    expect(html).toBe("<p>Before</p><p>After</p>")
+    expect(rejected).toEqual([
+      { type: "element", name: "script", count: 1 },
+      { type: "element", name: "iframe", count: 1 },
+    ])
+  })
+
+  it("keeps comment markers typed in the document as text", async () => {
+    const docx = await createDocx({ body: paragraph("<!-- [if IE]><script>alert(1)</script><![endif] -->") })
+
+    const { html, rejected } = await convert(docx)
+
+    expect(html).toBe("<p>&lt;!-- [if IE]&gt;&lt;script&gt;alert(1)&lt;/script&gt;&lt;![endif] --&gt;</p>")
+    expect(rejected).toEqual([])
+  })
+})
+
+describe("sanitizeHtml", () => {
+  // Mammoth never writes comments, but the sanitizer doesn't rely on that
+  it("removes comments, including conditional ones", () => {
+    const { html, rejected } = sanitizeHtml(
+      "<p>Shown<!-- note --></p><!--[if IE]><script>alert(1)</script><![endif]--><p>Also shown</p>",
+    )
+
+    expect(html).toBe("<p>Shown</p><p>Also shown</p>")
+    expect(rejected).toEqual([])
+  })
+})
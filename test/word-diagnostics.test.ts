@@ -0,0 +1,57 @@
+import mammoth from "mammoth"
+import { describe, expect, it } from "vitest"
+import { countConversionMessages, toConversionMessages } from "@/lib/word-diagnostics"
+import { createDocx, paragraph } from "./fixtures/docx"
+
+describe("toConversionMessages", () => {
+  it("reports the styles of a DOCX that the style map doesn't cover", async () => {
+    const docx = await createDocx({
+      body: paragraph("Title", "Fancy") + paragraph("Subtitle", "Fancy") + paragraph("Body", "Missing"),
+      paragraphStyles: { Fancy: "Fancy Heading" },
+    })
+    const result = await mammoth.convertToHtml({ buffer: docx })
+
+    const messages = toConversionMessages(result.messages)
+
+    expect(messages.filter((message) => message.category === "style")).toEqual([
+      {
+        severity: "warning",
+        category: "style",
+        message: "Unrecognised paragraph style: 'Fancy Heading' (Style ID: Fancy)",
+        styleName: "Fancy Heading",
+        styleType: "paragraph",
+        count: 1,
+      },
+      {
+        severity: "warning",
+        category: "style",
+        message: "Unrecognised paragraph style: 'null' (Style ID: Missing)",
+        styleName: "Missing",
+        styleType: "paragraph",
+        count: 1,
+      },
+    ])
+  })
+
+  it("groups identical messages and lists errors first", () => {
+    const messages = toConversionMessages([
+      { type: "warning", message: "An unrecognised element was ignored: w:customXml" },
+      { type: "warning", message: "Image of type image/x-emf is unlikely to display in web browsers" },
+      { type: "error", message: "Could not find image file for a:blip element" },
+      { type: "warning", message: "An unrecognised element was ignored: w:customXml" },
+    ])
+
+    expect(messages.map(({ severity, category, count }) => ({ severity, category, count }))).toEqual([
+      { severity: "error", category: "image", count: 1 },
+      { severity: "warning", category: "element", count: 2 },
+      { severity: "warning", category: "image", count: 1 },
+    ])
+    expect(countConversionMessages(messages)).toBe(4)
+  })
+
+  it("reports nothing for a clean conversion", async () => {
+    const result = await mammoth.convertToHtml({ buffer: await createDocx({ body: paragraph("Plain text") }) })
+
+    expect(toConversionMessages(result.messages)).toEqual([])
+  })
+})
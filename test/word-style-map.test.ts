@@ -0,0 +1,38 @@
+import mammoth from "mammoth"
+import { describe, expect, it } from "vitest"
+import { toConversionMessages } from "@/lib/word-diagnostics"
+import { BUILT_IN_STYLE_MAP, getStyleMapRules } from "@/lib/word-style-map"
+import { createDocx, paragraph } from "./fixtures/docx"
+
+describe("getStyleMapRules", () => {
+  it("puts custom rules before the built-in ones, skipping blank lines and comments", () => {
+    const customRules = "# Headings\n  p[style-name='Fancy'] => h1:fresh  \n\n# r => span\n"
+
+    expect(getStyleMapRules({ customRules, useBuiltInRules: true })).toEqual([
+      "p[style-name='Fancy'] => h1:fresh",
+      ...BUILT_IN_STYLE_MAP,
+    ])
+    expect(getStyleMapRules({ customRules, useBuiltInRules: false })).toEqual(["p[style-name='Fancy'] => h1:fresh"])
+  })
+
+  it("reports a rule mammoth can't parse and still applies the others", async () => {
+    const docx = await createDocx({
+      body: paragraph("Heads up", "Note") + paragraph("Title", "Fancy"),
+      paragraphStyles: { Note: "Note", Fancy: "Fancy" },
+    })
+    const styleMap = getStyleMapRules({
+      customRules: "p[style-name='Fancy' => h1:fresh",
+      useBuiltInRules: true,
+    })
+
+    const result = await mammoth.convertToHtml({ buffer: docx }, { styleMap })
+    const messages = toConversionMessages(result.messages)
+
+    expect(result.value).toBe('<div class="docx-note"><p>Heads up</p></div><p>Title</p>')
+    expect(messages.map(({ category, styleName }) => ({ category, styleName }))).toEqual([
+      { category: "style", styleName: "Fancy" },
+      { category: "styleMap", styleName: null },
+    ])
+    expect(messages[1].message).toMatch(/^Did not understand this style mapping, so ignored it: p\[style-name='Fancy' => h1/)
+  })
+})
@@ -0,0 +1,13 @@
+import { fileURLToPath } from "node:url"
+import { defineConfig } from "vitest/config"
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL("./", import.meta.url)) },
+  },
+  test: {
+    // The sanitizer parses HTML with DOMParser, as it does in the browser
+    environment: "jsdom",
+    include: ["test/**/*.test.ts"],
+  },
+})